@@ -1,30 +1,63 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useReducer, useContext } from 'react';
+import { createPortal } from 'react-dom';
 import gsap from 'gsap';
-import { ENVELOPES, TREE_COORDINATES, COVER_BG_IMAGE, GAME_BG_IMAGE, YEAR_REVIEW_IMAGE, COLORS } from './constants';
-import { GameState, EnvelopeData } from './types';
+import { GameState, EnvelopeData, StoryPack, EnvelopeLayout, TreeCoordinate, ChallengeSpec, ChallengeType, SecretSpec, SecretReward, LetterBlock, ThemeShape } from './types';
+import { loadStoryPack, getStoryAssets, applyAssetReport, validateStoryPack, getStoryWarnings, StoryPackError } from './story';
+import { loadAssets, usedFallback, AssetReport } from './assets';
+import { resolveTreeLayout, hasSlotsForShape, getCakePlate, Point, TreeLayout } from './treeLayout';
+import { BUILT_IN_THEMES, DEFAULT_THEME, Theme, getThemeText, resolveTheme } from './themes';
+import { ChiptuneSequencer, SONGS, SongKey } from './chiptune';
+import { parseShareLink, decodeShareLink, createShareLink, createRepliesLink, readRepliesLink, ParsedShareLink, ShareLinkError, WrongPassphraseError } from './shareLink';
+import { toStoryJson, toConstantsSnippet, downloadText, downloadBlob } from './storyExport';
+import { renderKeepsake, canvasToPng, KEEPSAKE_FORMATS, KeepsakeFormat } from './keepsake';
+import { createGameModel, gameReducer, getLockReason, isChallengePending, transition, GameEvent, GameModel, GameSetup, TransitionResult } from './gameMachine';
+import { getPixelIcon, placeholderImageUrl, PIXEL_ICON_SIZE } from './pixelIcons';
+import { MAX_REPLY_LENGTH, Reply, ReplyBundle, createReplyBundle, loadReplies, readReplyBundle, repliesMatchStory, saveReplies, toRepliesJson } from './replies';
+import { getLetterPages } from './letterBody';
+import { MarkupSound, MarkupToken, TypingStep, markupToPlainText, parseMarkup, toTypingSteps } from './letterMarkup';
+import { assignChallenges, checkQuizAnswer, CHALLENGE_TYPES, createMemoryDeck, createRhythmPattern, judgeRhythm, INLINE_CHALLENGES } from './challenges';
+import { loadProgress as loadSavedProgress, saveProgress, clearProgress, getStoryFingerprint, SavedProgress } from './progress';
+import { DEFAULT_UNLOCK_RULES, resolveUnlockDates, remapUnlockRules, formatShortDate, LockReason } from './unlockRules';
+import { now as clockNow, isClockOverridden, formatCountdown } from './clock';
+import { createParticleEngine, ParticleEngine } from './particles';
+import { precacheAssets } from './offline';
+import { CoopMessage, CoopSession, PLAYER_COLORS, createCoopSession, createTransport, getCoopConfig } from './coop';
+import { DEFAULT_SECRETS, SECRET_PALETTES, createSecretMatcher, loadFoundSecrets, saveFoundSecrets } from './secrets';
+import { ControllerAction, ControllerMapping, CONTROLLER_ACTIONS, DEFAULT_MAPPING, GamepadPoller, actionForKey, createGamepadPoller, loadControllerMapping, nextInDirection, rebind, saveControllerMapping } from './controller';
+import { systemPrefersReducedMotion, watchSystemMotion, loadMotionChoice, saveMotionChoice } from './motion';
+import { DEFAULT_LOCALE, LOCALE_LABELS, LOCALE_TAGS, SUPPORTED_LOCALES, Locale, MessageKey, MessageParams, detectLocale, saveLocale, translate, localizeEnvelope, localizeStory, splitGraphemes } from './i18n';
 
-// ==========================================
-// 🎵 ASSET CONFIGURATION
-// ==========================================
-const BGM_URLS = {
-  GROUND: 'https://jetta.vgmtreasurechest.com/soundtracks/super-mario-25th-anniversary-soundtrack-1985-2010/vklcdjjs/01.%20Super%20Mario%20Bros.%20Ground%20Theme.mp3', 
-  CASTLE: 'https://jetta.vgmtreasurechest.com/soundtracks/super-mario-3d-all-stars-switch-gamerip-2020/fjeterwg/1-01.%20Intro%20Jingle.mp3',
-  STAR: 'https://jetta.vgmtreasurechest.com/soundtracks/super-mario-25th-anniversary-soundtrack-1985-2010/ozgiwick/20.%20World%20Clear.mp3',
-  CLEAR: 'https://nu.vgmtreasurechest.com/soundtracks/super-mario-3d-land/nzkbchea/06%20Overworld.mp3',
-  ERROR: 'https://www.myinstants.com/media/sounds/buzzer.mp3'
-};
+type SynthType = 'blip' | 'coin' | 'powerup' | 'jump' | 'fanfare' | 'rub' | 'buzz';
+
+// --- I18N ---
+// App owns the locale; components read it and `t` from context (catalogs in i18n.ts)
+interface I18n { locale: Locale; setLocale: (locale: Locale) => void; t: (key: MessageKey, params?: MessageParams) => string; }
+const I18nContext = React.createContext<I18n>({ locale: DEFAULT_LOCALE, setLocale: () => {}, t: (key, params) => translate(DEFAULT_LOCALE, key, params) });
+const useI18n = () => useContext(I18nContext);
+
+// --- MOTION ---
+// Whether effects should be calmed down (see motion.ts); App resolves it, components just read it
+interface Motion { reduced: boolean; setReduced: (reduced: boolean) => void; }
+const MotionContext = React.createContext<Motion>({ reduced: false, setReduced: () => {} });
+const useMotion = () => useContext(MotionContext);
 
-// --- HYBRID AUDIO ENGINE ---
+// --- THEME ---
+// The story's occasion (see themes.ts): StoryRoot provides it, screens before a story loads get Christmas
+const ThemeContext = React.createContext<Theme>(DEFAULT_THEME);
+const useTheme = () => useContext(ThemeContext);
+// Screen roots set this so Tailwind's `sunset` colour (hover and focus states too) follows the theme
+const sunsetVar = (palette: Theme['palette']) => ({ '--sunset-orange': palette.sunsetOrange }) as React.CSSProperties;
+
+// --- AUDIO ENGINE ---
 // SFX: Web Audio API (Oscillators) for Zero Latency
-// BGM: HTML5 Audio for CORS compatibility and streaming
+// BGM: ChiptuneSequencer (see chiptune.ts), synthesized so it works offline
 const useGameAudio = () => {
     const audioContextRef = useRef<AudioContext | null>(null);
     const gainNodeRef = useRef<GainNode | null>(null);
-    const bgmRefs = useRef<Map<string, HTMLAudioElement>>(new Map());
-    const currentBgm = useRef<HTMLAudioElement | null>(null);
+    const sequencerRef = useRef<ChiptuneSequencer | null>(null);
     const [isMuted, setIsMuted] = useState(false);
 
-    // Initialize Web Audio Context (for SFX)
+    // Initialize Web Audio Context (shared by SFX and BGM)
     useEffect(() => {
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
         const ctx = new AudioContextClass();
@@ -33,97 +66,36 @@ const useGameAudio = () => {
         
         audioContextRef.current = ctx;
         gainNodeRef.current = gainNode;
+        sequencerRef.current = new ChiptuneSequencer(ctx, gainNode);
 
-        return () => { ctx.close(); };
+        return () => { sequencerRef.current?.stop(); ctx.close(); };
     }, []);
 
-    // Helper: Load BGM (HTML5 Audio)
-    const loadBGM = async (key: string, url: string): Promise<void> => {
-        return new Promise((resolve) => {
-            const audio = new Audio();
-            audio.src = url;
-            audio.preload = 'auto';
-            audio.loop = false;
-            
-            // Success handler
-            const onCanPlay = () => {
-                cleanup();
-                bgmRefs.current.set(key, audio);
-                resolve();
-            };
-
-            // Error/Timeout handler
-            const onError = () => {
-                cleanup();
-                console.warn(`[Audio] Failed/Timeout loading ${key}`);
-                // Resolve anyway so the game starts even if music fails
-                resolve(); 
-            };
-
-            const cleanup = () => {
-                audio.removeEventListener('canplaythrough', onCanPlay);
-                audio.removeEventListener('error', onError);
-            };
-
-            audio.addEventListener('canplaythrough', onCanPlay);
-            audio.addEventListener('error', onError);
-
-            // Timeout after 5 seconds to prevent hanging
-            setTimeout(onError, 5000); 
-            
-            // Trigger load
-            audio.load();
-        });
-    };
-
-    const playBGM = useCallback((key: string, loop = false, volume = 0.5) => {
-        if (isMuted) return;
-        
-        // Stop current BGM
-        if (currentBgm.current) {
-            currentBgm.current.pause();
-            currentBgm.current.currentTime = 0;
-        }
+    // Muting suspends the whole context, so BGM keeps its place and resumes on unmute
+    const playBGM = useCallback((key: SongKey, loop?: boolean, volume = 0.5) => {
+        const sequencer = sequencerRef.current;
+        if (!sequencer) return;
+        sequencer.play(SONGS[key], { loop, volume });
+    }, []);
 
-        const audio = bgmRefs.current.get(key);
-        if (audio) {
-            audio.loop = loop;
-            audio.volume = volume;
-            audio.play().catch(e => console.log("Playback prevented:", e));
-            currentBgm.current = audio;
-        }
-    }, [isMuted]);
+    const setBGMTempo = useCallback((multiplier: number) => {
+        sequencerRef.current?.setTempo(multiplier);
+    }, []);
 
-    // NEW: Play a sound without stopping the current BGM
-    const playOneShot = useCallback((key: string, volume = 0.6) => {
-        if (isMuted) return;
-        const audio = bgmRefs.current.get(key);
-        if (audio) {
-            audio.currentTime = 0; // Restart sound if already playing
-            audio.volume = volume;
-            audio.play().catch(e => console.log("OneShot prevented:", e));
-        }
-    }, [isMuted]);
+    // Music drops to a murmur under voice memos and videos
+    const duckBGM = useCallback((ducked: boolean) => {
+        sequencerRef.current?.duck(ducked ? 0.15 : 1);
+    }, []);
 
     const stopAll = useCallback(() => {
-        if (currentBgm.current) {
-            currentBgm.current.pause();
-            currentBgm.current.currentTime = 0;
-            currentBgm.current = null;
-        }
+        sequencerRef.current?.stop();
     }, []);
 
     const toggleMute = useCallback(() => {
         const newMuted = !isMuted;
         setIsMuted(newMuted);
-        
-        // Handle BGM
-        if (currentBgm.current) {
-            currentBgm.current.muted = newMuted;
-            if (!newMuted) currentBgm.current.play().catch(() => {});
-        }
 
-        // Handle SFX
+        // Handles both SFX and BGM
         if (audioContextRef.current) {
              if (newMuted) {
                  audioContextRef.current.suspend();
@@ -134,13 +106,13 @@ const useGameAudio = () => {
     }, [isMuted]);
 
     const resumeContext = useCallback(() => {
-        if (audioContextRef.current?.state === 'suspended') {
+        if (!isMuted && audioContextRef.current?.state === 'suspended') {
             audioContextRef.current.resume();
         }
-    }, []);
+    }, [isMuted]);
 
     // --- SYNTHESIZED SFX (Zero Latency, No Loading) ---
-    const playSynth = useCallback((type: 'blip' | 'coin' | 'powerup' | 'jump' | 'fanfare' | 'rub', time = 0) => {
+    const playSynth = useCallback((type: SynthType, time = 0) => {
         if (isMuted || !audioContextRef.current) return;
         const ctx = audioContextRef.current;
         
@@ -190,13 +162,21 @@ const useGameAudio = () => {
             gain.gain.setValueAtTime(0.03, now);
             gain.gain.exponentialRampToValueAtTime(0.001, now + 0.05);
             osc.start(now); osc.stop(now + 0.05);
+        } else if (type === 'buzz') {
+            osc.type = 'square';
+            osc.frequency.setValueAtTime(110, now);
+            osc.frequency.setValueAtTime(98, now + 0.15);
+            gain.gain.setValueAtTime(0.06, now);
+            gain.gain.setValueAtTime(0.06, now + 0.3);
+            gain.gain.linearRampToValueAtTime(0, now + 0.35);
+            osc.start(now); osc.stop(now + 0.35);
         }
     }, [isMuted]);
 
     return {
-        loadBGM,
         playBGM,
-        playOneShot,
+        setBGMTempo,
+        duckBGM,
         stopAll,
         toggleMute,
         isMuted,
@@ -205,91 +185,122 @@ const useGameAudio = () => {
     };
 };
 
-// --- Helper: Confetti Particle System ---
-const ParticleSystem = React.forwardRef((props, ref) => {
-    const [particles, setParticles] = useState<{id: number, x: number, y: number, color: string, vx: number, vy: number, size: number}[]>([]);
-    React.useImperativeHandle(ref, () => ({
-        spawn: (x: number, y: number, count = 10) => { 
-            const newParticles = [];
-            const colors = [COLORS.sunsetOrange, COLORS.scarfRed, '#FFFFFF', '#FFD700', COLORS.deepPineGreen];
-            for(let i=0; i<count; i++) {
-                newParticles.push({
-                    id: Date.now() + i + Math.random(), x, y,
-                    color: colors[Math.floor(Math.random() * colors.length)],
-                    vx: (Math.random() - 0.5) * 8, vy: (Math.random() - 0.5) * 8, size: Math.random() * 4 + 2 
-                });
-            }
-            setParticles(prev => [...prev, ...newParticles]);
-        }
-    }));
+// --- Helper: Particle Canvas ---
+// Hosts the canvas engine from particles.ts; the ref is the engine itself (`spawn`, `stream`).
+// With `trail`, pointer movement leaves sparkles behind (in `trailColor`, if given). Presets follow the theme's palette.
+const ParticleCanvas = React.forwardRef<ParticleEngine | null, { trail?: boolean, trailColor?: string }>(({ trail = false, trailColor }, ref) => {
+    const { palette } = useTheme();
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const engineRef = useRef<ParticleEngine | null>(null);
+    // A layout effect, so the engine exists before the ref below is handed out
+    React.useLayoutEffect(() => {
+        const engine = createParticleEngine(canvasRef.current!);
+        engineRef.current = engine;
+        const handleResize = () => engine.resize(window.innerWidth, window.innerHeight);
+        handleResize();
+        window.addEventListener('resize', handleResize);
+        return () => { window.removeEventListener('resize', handleResize); engine.destroy(); engineRef.current = null; };
+    }, []);
+    React.useLayoutEffect(() => { engineRef.current?.setPalette(palette); }, [palette]);
+    React.useImperativeHandle(ref, () => engineRef.current, []);
     useEffect(() => {
-        if (particles.length === 0) return;
-        const interval = setInterval(() => {
-            setParticles(prev => prev.map(p => ({ ...p, x: p.x + p.vx, y: p.y + p.vy, vy: p.vy + 0.5 }))
-                .filter(p => p.y < window.innerHeight && p.x > 0 && p.x < window.innerWidth)); 
-        }, 30);
-        return () => clearInterval(interval);
-    }, [particles.length]);
-    return (
-        <div className="fixed inset-0 pointer-events-none z-[100] overflow-hidden">
-            {particles.map(p => (
-                <div key={p.id} className="absolute rounded-full" style={{ width: p.size, height: p.size, left: p.x, top: p.y, backgroundColor: p.color, boxShadow: `0 0 2px ${p.color}`, opacity: 0.8, transform: 'translate(-50%, -50%)' }} />
-            ))}
-        </div>
-    );
+        if (!trail) return;
+        const onMouseMove = (e: MouseEvent) => engineRef.current?.spawn('sparkle', e.clientX, e.clientY, undefined, trailColor);
+        const onTouchMove = (e: TouchEvent) => { if (e.touches.length > 0) engineRef.current?.spawn('sparkle', e.touches[0].clientX, e.touches[0].clientY, undefined, trailColor); };
+        window.addEventListener('mousemove', onMouseMove); window.addEventListener('touchmove', onTouchMove);
+        return () => { window.removeEventListener('mousemove', onMouseMove); window.removeEventListener('touchmove', onTouchMove); };
+    }, [trail, trailColor]);
+    return <canvas ref={canvasRef} className="fixed inset-0 w-full h-full pointer-events-none z-[100]" aria-hidden="true" />;
 });
 
-// --- Helper: Mouse Trail ---
-const CursorTrail = () => {
-  const [trails, setTrails] = useState<{ x: number, y: number, id: number }[]>([]);
-  useEffect(() => {
-    let counter = 0;
-    const handleMove = (x: number, y: number) => {
-      if (counter % 3 === 0) { setTrails(prev => [ ...prev.slice(-15), { x, y, id: Date.now() } ]); }
-      counter++;
-    };
-    const onMouseMove = (e: MouseEvent) => handleMove(e.clientX, e.clientY);
-    const onTouchMove = (e: TouchEvent) => { if(e.touches.length > 0) handleMove(e.touches[0].clientX, e.touches[0].clientY); };
-    window.addEventListener('mousemove', onMouseMove); window.addEventListener('touchmove', onTouchMove);
-    return () => { window.removeEventListener('mousemove', onMouseMove); window.removeEventListener('touchmove', onTouchMove); };
-  }, []);
-  return (
-    <div className="pointer-events-none fixed inset-0 z-[60] overflow-hidden">
-      {trails.map(trail => (
-        <div key={trail.id} className="absolute w-2 h-2 bg-[#FFAD66] opacity-60" style={{ left: trail.x, top: trail.y, transform: 'translate(-50%, -50%)', boxShadow: '0 0 3px #FFAD66', animation: 'fadeTrail 0.8s forwards' }} />
-      ))}
-      <style>{`@keyframes fadeTrail { 0% { transform: translate(-50%, -50%) scale(1); opacity: 0.6; } 100% { transform: translate(-50%, 0%) scale(0); opacity: 0; } }`}</style>
-    </div>
-  );
-};
-
 // --- Helper: Loading Screen ---
-const LoadingScreen = ({ progress }: { progress: number }) => {
+// Reports images that failed (every URL tried and why) and those that fell back; the player decides whether to go on without them
+const LoadingScreen = ({ progress, report, onContinue, onRetry }: { progress: number, report?: AssetReport, onContinue?: () => void, onRetry?: () => void }) => {
+    const { t } = useI18n();
+    const { palette } = useTheme();
+    const failed = report?.failed ?? [];
+    const fellBack = report?.outcomes.filter(usedFallback) ?? [];
     return (
-        <div className="fixed inset-0 z-[100] flex flex-col items-center justify-center px-4" style={{ backgroundColor: COLORS.nightBlue }}>
-             <div className="text-5xl sm:text-6xl animate-bounce mb-6 sm:mb-8 filter drop-shadow-[0_0_10px_#FFAD66]">💌</div>
-             <h2 className="text-[#FFAD66] font-bold text-lg sm:text-xl mb-6 pixel-text-glow tracking-widest text-center leading-loose">
-                 LOADING<br className="block sm:hidden" /> MEMORIES...
+        <div className="fixed inset-0 z-[100] flex flex-col items-center justify-center px-4" style={{ ...sunsetVar(palette), backgroundColor: palette.nightBlue }}>
+             <div className="text-5xl sm:text-6xl animate-bounce mb-6 sm:mb-8 filter drop-shadow-[0_0_10px_var(--sunset-orange)]">💌</div>
+             <h2 className="text-sunset font-bold text-lg sm:text-xl mb-6 pixel-text-glow tracking-widest text-center leading-loose">
+                 {t('loading.title')}
              </h2>
              <div className="w-64 max-w-[90%] h-6 bg-black border-4 border-white p-1 shadow-[4px_4px_0_rgba(0,0,0,0.5)]">
                  <div className="h-full bg-[#D94C23] transition-all duration-100 ease-out relative" style={{ width: `${progress}%` }}>
                     <div className="absolute top-0 right-0 h-full w-1 bg-white opacity-50 animate-pulse"></div>
                  </div>
              </div>
-             <div className="mt-4 text-[10px] sm:text-xs text-gray-400 font-mono tracking-widest">{Math.round(progress)}% COMPLETE</div>
+             <div className="mt-4 text-[10px] sm:text-xs text-gray-400 font-mono tracking-widest">{t('loading.complete', { percent: Math.round(progress) })}</div>
+             {(failed.length > 0 || fellBack.length > 0) && (
+                 <div role="alert" className="mt-6 w-full max-w-md flex flex-col items-center gap-3 text-center">
+                     {failed.length > 0 && <p className="text-[10px] text-sunset leading-relaxed">{t('loading.failed', { count: failed.length })}</p>}
+                     <ul className="max-h-40 w-full overflow-y-auto text-[8px] text-gray-400 font-mono break-all text-left space-y-2">
+                         {failed.map(o => (
+                             <li key={o.key}>
+                                 <div className="text-white">✗ {o.key}{o.key.startsWith('envelopes') ? ` — ${t('loading.placeholder')}` : ''}</div>
+                                 {o.failures.map((f, i) => <div key={i} className="pl-3">{f.url} ({f.error})</div>)}
+                             </li>
+                         ))}
+                         {fellBack.map(o => <li key={o.key}>⚠ {t('loading.fallback', { key: o.key, url: o.url })}</li>)}
+                     </ul>
+                     <div className="flex gap-3">
+                         {onRetry && <button onClick={onRetry} className="px-4 py-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 text-[10px] uppercase tracking-widest">{t('loading.retry')}</button>}
+                         {onContinue && <button onClick={onContinue} className="px-4 py-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 text-[10px] uppercase tracking-widest">{t('loading.continue')}</button>}
+                     </div>
+                 </div>
+             )}
         </div>
     );
 };
 
+// --- Helper: Focus Trap ---
+// Dialogs take focus, keep Tab inside, close on Escape and hand focus back to whatever opened them.
+// They stack (the gamepad can open over a letter); only the top one reacts to keys.
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+const dialogStack: HTMLElement[] = [];
+const useFocusTrap = (ref: React.RefObject<HTMLElement>, onEscape?: () => void, active = true) => {
+    const escapeRef = useRef(onEscape);
+    escapeRef.current = onEscape;
+    useEffect(() => {
+        const root = ref.current;
+        if (!active || !root) return;
+        const opener = document.activeElement as HTMLElement | null;
+        dialogStack.push(root);
+        root.focus(); // The dialog itself, so screen readers announce its label first
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (dialogStack[dialogStack.length - 1] !== root) return;
+            if (e.key === 'Escape' && escapeRef.current) { e.preventDefault(); escapeRef.current(); return; }
+            if (e.key !== 'Tab') return;
+            const items = Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE));
+            if (items.length === 0) { e.preventDefault(); return; }
+            const first = items[0], last = items[items.length - 1];
+            const outside = !root.contains(document.activeElement) || document.activeElement === root;
+            if (e.shiftKey && (outside || document.activeElement === first)) { e.preventDefault(); last.focus(); }
+            else if (!e.shiftKey && (outside || document.activeElement === last)) { e.preventDefault(); first.focus(); }
+        };
+        document.addEventListener('keydown', onKeyDown);
+        return () => {
+            document.removeEventListener('keydown', onKeyDown);
+            dialogStack.splice(dialogStack.indexOf(root), 1);
+            if (opener && document.contains(opener)) opener.focus();
+        };
+    }, [active]);
+};
+
 // --- Helper: Credits Modal ---
-const CreditsModal = ({ onClose }: { onClose: () => void }) => {
-    const stats = [ { label: "Commits", value: "128" }, { label: "Versions", value: "45" }, { label: "Coffee", value: "∞" }, { label: "Love Lvl", value: "MAX" } ];
+const CreditsModal = ({ onClose, onPrint }: { onClose: () => void, onPrint?: () => void }) => {
+    const { t } = useI18n();
+    const { palette } = useTheme();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useFocusTrap(dialogRef, onClose);
+    const stats = [ { label: t('credits.commits'), value: "128" }, { label: t('credits.versions'), value: "45" }, { label: t('credits.coffee'), value: "∞" }, { label: t('credits.love'), value: "MAX" } ];
     return (
         <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-[fadeIn_0.3s]">
-            <div className="relative w-full max-w-md origin-center" style={{ backgroundColor: COLORS.nightBlue, boxShadow: `inset 0 0 0 4px ${COLORS.nightBlue}, inset 0 0 0 8px #fff, 0 0 0 4px #000, 10px 10px 0 rgba(0,0,0,0.5)`, border: '4px solid #fff', padding: '24px' }}>
+            <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="credits-title" tabIndex={-1} className="relative w-full max-w-md origin-center outline-none" style={{ backgroundColor: palette.nightBlue, boxShadow: `inset 0 0 0 4px ${palette.nightBlue}, inset 0 0 0 8px #fff, 0 0 0 4px #000, 10px 10px 0 rgba(0,0,0,0.5)`, border: '4px solid #fff', padding: '24px' }}>
                 <div className="flex justify-between items-center border-b-4 border-white pb-3 mb-4">
-                    <h2 className="text-[#FFAD66] text-sm sm:text-base font-bold tracking-widest pixel-text-glow">PROJECT ARCHIVE</h2>
-                    <button onClick={onClose} className="text-white hover:text-[#FFAD66] text-xs uppercase transition-colors">x CLOSE</button>
+                    <h2 id="credits-title" className="text-sunset text-sm sm:text-base font-bold tracking-widest pixel-text-glow">{t('credits.title')}</h2>
+                    <button onClick={onClose} className="text-white hover:text-sunset text-xs uppercase transition-colors">{t('credits.close')}</button>
                 </div>
                 <div className="grid grid-cols-2 gap-4 mb-6">
                     {stats.map((s, i) => (
@@ -299,89 +310,140 @@ const CreditsModal = ({ onClose }: { onClose: () => void }) => {
                         </div>
                     ))}
                 </div>
-                <div className="mt-4 text-center"><p className="text-[10px] text-[#B8C8D9] font-mono leading-relaxed">Built with React & Love.<br/>Version 2.0.0 // 2025</p></div>
+                {onPrint && <button onClick={onPrint} className="w-full py-2 mb-2 border-2 border-white bg-black/30 hover:bg-black/50 active:scale-95 transition-all text-[10px] uppercase tracking-widest text-white">{t('credits.print')}</button>}
+                <div className="mt-4 text-center"><p className="text-[10px] text-[#B8C8D9] font-mono leading-relaxed whitespace-pre-line">{t('credits.footer')}</p></div>
             </div>
         </div>
     );
 };
 
 // --- Helper: Virtual Gamepad ---
-const VirtualGamepad = ({ onClose, onInput }: { onClose: () => void, onInput: (key: string) => void }) => {
+// Lights up whatever a physical pad or mapped key is holding. Click an action below to bind the next button or key pressed to it.
+interface VirtualGamepadProps {
+    onClose: () => void; onInput: (key: string) => void;
+    held: ControllerAction[]; mapping: ControllerMapping; remapping: ControllerAction | null;
+    onRemap: (action: ControllerAction | null) => void; onResetMapping: () => void;
+}
+const VirtualGamepad = ({ onClose, onInput, held, mapping, remapping, onRemap, onResetMapping }: VirtualGamepadProps) => {
+    const { t } = useI18n();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useFocusTrap(dialogRef, onClose);
     const btnBase = "active:scale-90 active:brightness-75 transition-transform flex items-center justify-center select-none cursor-pointer z-10";
-    const dPadBtn = `${btnBase} w-12 h-12 bg-[#333] border-2 border-[#111] shadow-[2px_2px_0_#000] text-white text-xs`;
-    const actionBtn = `${btnBase} w-14 h-14 rounded-full border-2 border-[#111] shadow-[2px_2px_0_#000] text-black font-bold text-xl`;
+    const lit = (action: ControllerAction) => (held.includes(action) ? 'scale-90 brightness-150 ring-4 ring-sunset' : '');
+    const dPadBtn = (action: ControllerAction) => `${btnBase} ${lit(action)} w-12 h-12 bg-[#333] border-2 border-[#111] shadow-[2px_2px_0_#000] text-white text-xs`;
+    const actionBtn = (action: ControllerAction) => `${btnBase} ${lit(action)} w-14 h-14 rounded-full border-2 border-[#111] shadow-[2px_2px_0_#000] text-black font-bold text-xl bg-[#cf2b3e]`;
+    const binding = (action: ControllerAction) => [...mapping.buttons[action].map(b => `#${b}`), ...mapping.keys[action].map(k => (k === ' ' ? 'Space' : k))].join(' · ') || '—';
     return (
         <div className="fixed inset-0 z-[80] flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-[fadeIn_0.2s]">
-             <div className="relative bg-[#ccc] w-full max-w-md p-6 rounded-lg border-4 border-[#555] shadow-[0_10px_30px_rgba(0,0,0,0.5)] flex flex-col gap-4 overflow-hidden" style={{ clipPath: 'polygon(5% 0, 95% 0, 100% 10%, 100% 90%, 95% 100%, 5% 100%, 0 90%, 0 10%)' }}>
+             <div ref={dialogRef} role="dialog" aria-modal="true" aria-label={t('gamepad.title')} tabIndex={-1} className="outline-none relative bg-[#ccc] w-full max-w-md p-6 rounded-lg border-4 border-[#555] shadow-[0_10px_30px_rgba(0,0,0,0.5)] flex flex-col gap-4 overflow-hidden" style={{ clipPath: 'polygon(5% 0, 95% 0, 100% 10%, 100% 90%, 95% 100%, 5% 100%, 0 90%, 0 10%)' }}>
                  <div className="flex justify-between items-center border-b-2 border-[#999] pb-2 z-10 pt-4">
-                     <span className="text-[#333] font-bold tracking-widest text-xs">CONTROLLER 1</span>
-                     <button onClick={onClose} className="text-red-600 font-bold hover:scale-110">X</button>
+                     <span className="text-[#333] font-bold tracking-widest text-xs">{t('gamepad.title')}</span>
+                     <button onClick={onClose} aria-label={t('gamepad.close')} className="text-red-600 font-bold hover:scale-110">X</button>
                  </div>
-                 <div className="w-full text-center z-10"><span className="text-[10px] text-[#555] font-bold tracking-widest bg-white/30 px-2 py-0.5 rounded">HINT: KONAMI CODE</span></div>
+                 <div className="w-full text-center z-10"><span className="text-[10px] text-[#555] font-bold tracking-widest bg-white/30 px-2 py-0.5 rounded">{t('gamepad.hint')}</span></div>
                  <div className="flex justify-between items-end pb-4 z-10 mt-2">
                      <div className="relative w-36 h-36">
-                         <div className="absolute top-0 left-12"><button className={dPadBtn} onClick={() => onInput('ArrowUp')}>▲</button></div>
-                         <div className="absolute bottom-0 left-12"><button className={dPadBtn} onClick={() => onInput('ArrowDown')}>▼</button></div>
-                         <div className="absolute top-12 left-0"><button className={dPadBtn} onClick={() => onInput('ArrowLeft')}>◀</button></div>
-                         <div className="absolute top-12 right-0"><button className={dPadBtn} onClick={() => onInput('ArrowRight')}>▶</button></div>
+                         <div className="absolute top-0 left-12"><button className={dPadBtn('up')} aria-label={t('gamepad.up')} onClick={() => onInput('ArrowUp')}>▲</button></div>
+                         <div className="absolute bottom-0 left-12"><button className={dPadBtn('down')} aria-label={t('gamepad.down')} onClick={() => onInput('ArrowDown')}>▼</button></div>
+                         <div className="absolute top-12 left-0"><button className={dPadBtn('left')} aria-label={t('gamepad.left')} onClick={() => onInput('ArrowLeft')}>◀</button></div>
+                         <div className="absolute top-12 right-0"><button className={dPadBtn('right')} aria-label={t('gamepad.right')} onClick={() => onInput('ArrowRight')}>▶</button></div>
                          <div className="absolute top-12 left-12 w-12 h-12 bg-[#333]"></div>
                      </div>
                      <div className="flex gap-4 transform rotate-[-10deg] mb-4">
-                         <div className="flex flex-col items-center gap-1"><button className={`${actionBtn} bg-[#cf2b3e]`} onClick={() => onInput('b')}>B</button></div>
-                         <div className="flex flex-col items-center gap-1 mt-4"><button className={`${actionBtn} bg-[#cf2b3e]`} onClick={() => onInput('a')}>A</button></div>
+                         <div className="flex flex-col items-center gap-1"><button className={actionBtn('back')} onClick={() => onInput('b')}>B</button></div>
+                         <div className="flex flex-col items-center gap-1 mt-4"><button className={actionBtn('confirm')} onClick={() => onInput('a')}>A</button></div>
                      </div>
                  </div>
+                 <div className="z-10 border-t-2 border-[#999] pt-3 pb-4 flex flex-col gap-1">
+                     <div className="flex justify-between items-center mb-1">
+                         <span className="text-[#333] font-bold tracking-widest text-[10px]">{t('gamepad.mapping')}</span>
+                         <button onClick={onResetMapping} className="text-[8px] text-[#555] uppercase hover:text-black">{t('gamepad.reset')}</button>
+                     </div>
+                     <div role="status" aria-live="polite" className="sr-only">{remapping ? t('gamepad.press') : ''}</div>
+                     {CONTROLLER_ACTIONS.map(action => (
+                         <button key={action} onClick={() => onRemap(remapping === action ? null : action)} aria-pressed={remapping === action}
+                             className={`flex justify-between gap-2 px-2 py-1 text-[8px] text-left border-2 ${remapping === action ? 'border-[#cf2b3e] bg-white animate-pulse' : 'border-transparent hover:border-[#999]'} ${held.includes(action) ? 'bg-sunset' : ''}`}>
+                             <span className="text-[#333] font-bold">{t(`gamepad.${action}`)}</span>
+                             <span className="text-[#555] font-mono truncate">{remapping === action ? t('gamepad.press') : binding(action)}</span>
+                         </button>
+                     ))}
+                 </div>
              </div>
         </div>
     );
 };
 
-// --- Helper: Snowfall ---
-const Snowfall: React.FC = () => {
+// --- Helper: Ambience ---
+// What falls across the screen for the theme: snow, petals or confetti. `still` draws a single frame instead of animating
+const Ambience: React.FC<{ still?: boolean }> = ({ still = false }) => {
+  const { ambience, palette } = useTheme();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   useEffect(() => {
     const canvas = canvasRef.current; if (!canvas) return; const ctx = canvas.getContext('2d'); if (!ctx) return;
     let w = (canvas.width = window.innerWidth); let h = (canvas.height = window.innerHeight);
-    const particles: { x: number; y: number; s: number; v: number; o: number }[] = [];
+    const colors = { snow: ['#FFFFFF'], petals: [palette.sunsetOrange, palette.snowShadow, '#FFFFFF'], confetti: [palette.sunsetOrange, palette.scarfRed, palette.snowShadow, '#FFFFFF'] }[ambience];
+    const sway = ambience === 'snow' ? 0.3 : 1.2; // Petals and confetti drift further sideways
+    const particles: { x: number; y: number; s: number; v: number; o: number; c: string }[] = [];
     const count = 50; 
-    for (let i = 0; i < count; i++) { particles.push({ x: Math.random() * w, y: Math.random() * h, s: Math.random() * 4 + 2, v: Math.random() * 1 + 0.5, o: Math.random() * 0.6 + 0.4 }); }
+    for (let i = 0; i < count; i++) { particles.push({ x: Math.random() * w, y: Math.random() * h, s: Math.random() * 4 + 2, v: Math.random() * 1 + 0.5, o: Math.random() * 0.6 + 0.4, c: colors[i % colors.length] }); }
     const draw = () => {
       ctx.clearRect(0, 0, w, h);
-      particles.forEach((p) => { ctx.fillStyle = `rgba(255, 255, 255, ${p.o})`; ctx.fillRect(Math.floor(p.x), Math.floor(p.y), Math.floor(p.s), Math.floor(p.s)); p.y += p.v; p.x += Math.sin(p.y * 0.005) * 0.3; if (p.y > h) { p.y = -5; p.x = Math.random() * w; } if (p.x > w) p.x = 0; if (p.x < 0) p.x = w; });
-      requestAnimationFrame(draw);
+      particles.forEach((p) => {
+        ctx.globalAlpha = p.o; ctx.fillStyle = p.c;
+        const s = Math.floor(p.s);
+        if (ambience === 'snow') ctx.fillRect(Math.floor(p.x), Math.floor(p.y), s, s);
+        // Petals are wider than tall; confetti flips, so its width flickers
+        else if (ambience === 'petals') ctx.fillRect(Math.floor(p.x), Math.floor(p.y), s * 2, s);
+        else ctx.fillRect(Math.floor(p.x), Math.floor(p.y), Math.max(1, Math.floor(s * Math.abs(Math.cos(p.y * 0.05)))), s * 2);
+        p.y += p.v; p.x += Math.sin(p.y * 0.005) * sway; if (p.y > h) { p.y = -5; p.x = Math.random() * w; } if (p.x > w) p.x = 0; if (p.x < 0) p.x = w;
+      });
+      ctx.globalAlpha = 1;
+      if (!still) frame = requestAnimationFrame(draw);
     };
-    const handleResize = () => { w = canvas.width = window.innerWidth; h = canvas.height = window.innerHeight; };
-    window.addEventListener('resize', handleResize); draw();
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
+    let frame = 0;
+    // No frames while the tab is in the background
+    const handleVisibility = () => {
+      cancelAnimationFrame(frame);
+      if (!document.hidden && !still) frame = requestAnimationFrame(draw);
+    };
+    const handleResize = () => { w = canvas.width = window.innerWidth; h = canvas.height = window.innerHeight; if (still) draw(); };
+    window.addEventListener('resize', handleResize); document.addEventListener('visibilitychange', handleVisibility); draw();
+    return () => { cancelAnimationFrame(frame); window.removeEventListener('resize', handleResize); document.removeEventListener('visibilitychange', handleVisibility); };
+  }, [still, ambience, palette]);
   return <canvas ref={canvasRef} className="fixed top-0 left-0 w-full h-full pointer-events-none z-40" />;
 };
 
 // --- Helper: Pixel Icons ---
 const PixelIcon = ({ id }: { id: number }) => {
+  const { icons } = useTheme();
   const iconStyle: React.CSSProperties = { width: '20px', height: '20px', shapeRendering: 'crispEdges' };
-  const type = id % 5; 
-  switch (type) {
-    case 0: return (<svg viewBox="0 0 16 16" style={iconStyle}><path d="M2 11h12v3H2z" fill="#fff" /><path d="M4 11L8 3L12 11H4" fill="#c1121f" /><rect x="12" y="9" width="3" height="3" fill="#fff" /></svg>);
-    case 1: return (<svg viewBox="0 0 16 16" style={iconStyle}><path d="M8 2L3 11h3v3h4v-3h3L8 2z" fill="#2d6a4f" /><rect x="7" y="14" width="2" height="2" fill="#5C4033" /></svg>);
-    case 2: return (<svg viewBox="0 0 16 16" style={iconStyle}><rect x="5" y="6" width="6" height="6" fill="#8B4513" /><path d="M4 3h2v4H4z M10 3h2v4h-2z" fill="#5D4037" /><rect x="7" y="10" width="2" height="2" fill="#c1121f" /></svg>);
-    case 3: return (<svg viewBox="0 0 16 16" style={iconStyle}><ellipse cx="8" cy="9" rx="4" ry="5" fill="#6F4E37" /><path d="M6 6l4 4 M10 6l-4 4" stroke="#4A3728" strokeWidth="1" /><rect x="7" y="3" width="2" height="2" fill="#4A3728" /></svg>);
-    case 4: return (<svg viewBox="0 0 16 16" style={iconStyle}><rect x="3" y="5" width="10" height="8" fill="#e9c46a" /><rect x="7" y="5" width="2" height="8" fill="#c1121f" /><rect x="3" y="8" width="10" height="2" fill="#c1121f" /></svg>);
-    default: return null;
-  }
+  return (
+    <svg viewBox={`0 0 ${PIXEL_ICON_SIZE} ${PIXEL_ICON_SIZE}`} style={iconStyle}>
+      {getPixelIcon(id, icons).map((p, i) => <path key={i} d={p.d} fill={p.fill ?? 'none'} stroke={p.stroke} strokeWidth={p.stroke ? 1 : undefined} />)}
+    </svg>
+  );
 };
 
 // --- Helper: Envelope ---
 interface EnvelopeProps { 
-    data: EnvelopeData; isRead: boolean; onInteract: (id: number, isDrag: boolean) => void; onHover: () => void; gameState: GameState; index: number; style?: React.CSSProperties; errorId: number | null; isSnowCovered: boolean; playRub: () => void;
+    data: EnvelopeData; isRead: boolean; onInteract: (id: number, isDrag: boolean) => void; onHover: () => void; gameState: GameState; index: number; style?: React.CSSProperties; errorId: number | null; isSnowCovered: boolean; playRub: () => void; onSnowCleared: (id: number) => void;
+    lockReason: string | null; // Shown as a native tooltip while the letter is locked
+    countdown: string | null; // Time left until a dated letter opens
+    challenge: ChallengeType | null; // Pending challenge played in the challenge window
+    hint: string | null; // Speech bubble after a rejected open, e.g. "Opens on Dec 24"
+    readers?: string[]; // Co-op: colors of the players who opened it
 }
-const Envelope: React.FC<EnvelopeProps> = ({ data, isRead, onInteract, onHover, gameState, index, style, errorId, isSnowCovered, playRub }) => {
+const Envelope: React.FC<EnvelopeProps> = ({ data, isRead, onInteract, onHover, gameState, index, style, errorId, isSnowCovered, playRub, onSnowCleared, lockReason, countdown, challenge, hint, readers = [] }) => {
+  const { t } = useI18n();
+  const { palette } = useTheme();
+  const { reduced: reducedMotion } = useMotion();
   const isInteractable = gameState === GameState.COLLECTING;
-  const shouldAnimate = (gameState === GameState.COLLECTING || gameState === GameState.READY_TO_ASSEMBLE) && !isRead;
+  const shouldAnimate = (gameState === GameState.COLLECTING || gameState === GameState.READY_TO_ASSEMBLE) && !isRead && !reducedMotion;
   const dragStartRef = useRef<{x: number, y: number, time: number} | null>(null);
   const isError = errorId === data.id;
   const [snowOpacity, setSnowOpacity] = useState(isSnowCovered ? 1 : 0);
   const [cleaned, setCleaned] = useState(!isSnowCovered);
+  useEffect(() => { setSnowOpacity(isSnowCovered ? 1 : 0); setCleaned(!isSnowCovered); }, [isSnowCovered]);
 
   const handleStart = (clientX: number, clientY: number) => { 
       if (!isInteractable) return; 
@@ -390,15 +452,25 @@ const Envelope: React.FC<EnvelopeProps> = ({ data, isRead, onInteract, onHover,
       onInteract(data.id, true); 
   };
   
-  const handleSnowRub = (e: React.MouseEvent | React.TouchEvent) => {
+  const rubSnow = (amount: number) => {
       if (cleaned || gameState !== GameState.COLLECTING) return;
       setSnowOpacity(prev => {
-          const next = prev - 0.05;
-          if (next <= 0) { setCleaned(true); return 0; }
+          const next = prev - amount;
+          if (next <= 0) { setCleaned(true); onSnowCleared(data.id); return 0; }
           playRub(); return next;
       });
   };
   
+  const handleSnowRub = () => rubSnow(0.05);
+
+  // Enter or Space opens the letter; on snow each press wipes off a quarter instead
+  const onKeyDown = (e: React.KeyboardEvent) => {
+      if (!isInteractable || (e.key !== 'Enter' && e.key !== ' ')) return;
+      e.preventDefault();
+      if (!cleaned) { rubSnow(0.25); return; }
+      if (!e.repeat) onInteract(data.id, false);
+  };
+
   const onMouseDown = (e: React.MouseEvent) => handleStart(e.clientX, e.clientY);
   const onTouchStart = (e: React.TouchEvent) => { const touch = e.touches[0]; handleStart(touch.clientX, touch.clientY); };
   const handleEnd = (clientX: number, clientY: number) => { 
@@ -419,202 +491,1417 @@ const Envelope: React.FC<EnvelopeProps> = ({ data, isRead, onInteract, onHover,
       cursor: isInteractable ? (cleaned ? 'grab' : 'help') : 'default', 
   } as React.CSSProperties;
   
+  const label = [t('envelope.label', { id: data.id }), isRead && t('envelope.read'), !cleaned && t('envelope.snow'), challenge && t(`challenge.${challenge}`), lockReason, countdown && t('envelope.opensIn', { time: countdown })].filter(Boolean).join(', ');
+
   return (
-    <div id={`envelope-${data.id}`} onMouseDown={onMouseDown} onMouseUp={onMouseUp} onTouchStart={onTouchStart} onTouchEnd={onTouchEnd} onMouseEnter={() => isInteractable && onHover()} onMouseMove={handleSnowRub} onTouchMove={handleSnowRub}
-         className={`relative w-24 h-16 sm:w-28 sm:h-20 flex items-center justify-center transition-transform duration-100 ${isInteractable && cleaned ? 'hover:scale-110 active:cursor-grabbing active:scale-105' : ''} ${isRead && gameState === GameState.COLLECTING ? 'opacity-40 grayscale filter brightness-75' : 'opacity-100'} ${gameState === GameState.ASSEMBLING ? 'transition-none' : ''}`} style={{ backgroundColor: COLORS.cream, border: `3px solid ${COLORS.wood}`, boxShadow: `3px 3px 0 0 rgba(0,0,0,0.25)`, ...customStyle, }}>
+    <div id={`envelope-${data.id}`} role="button" tabIndex={isInteractable ? 0 : -1} aria-label={label} aria-disabled={isInteractable && lockReason ? true : undefined} aria-hidden={isInteractable ? undefined : true} onKeyDown={onKeyDown}
+         title={isInteractable && lockReason ? lockReason : undefined} onMouseDown={onMouseDown} onMouseUp={onMouseUp} onTouchStart={onTouchStart} onTouchEnd={onTouchEnd} onMouseEnter={() => isInteractable && onHover()} onMouseMove={handleSnowRub} onTouchMove={handleSnowRub}
+         className={`relative w-24 h-16 sm:w-28 sm:h-20 flex items-center justify-center transition-transform duration-100 outline-none focus-visible:ring-4 focus-visible:ring-sunset ${isInteractable && cleaned ? 'hover:scale-110 active:cursor-grabbing active:scale-105' : ''} ${isRead && gameState === GameState.COLLECTING ? 'opacity-40 grayscale filter brightness-75' : 'opacity-100'} ${gameState === GameState.ASSEMBLING ? 'transition-none' : ''}`} style={{ backgroundColor: palette.cream, border: `3px solid ${palette.wood}`, boxShadow: `3px 3px 0 0 rgba(0,0,0,0.25)`, ...customStyle, }}>
       <style>{`@keyframes errorShake { 10%, 90% { transform: translate3d(-2px, 0, 0) rotate(-2deg); } 20%, 80% { transform: translate3d(4px, 0, 0) rotate(2deg); } 30%, 50%, 70% { transform: translate3d(-6px, 0, 0) rotate(-4deg); } 40%, 60% { transform: translate3d(6px, 0, 0) rotate(4deg); } }`}</style>
-      {snowOpacity > 0 && (<div className="absolute inset-[-4px] z-30 pointer-events-auto" style={{ opacity: snowOpacity, background: 'repeating-linear-gradient(45deg, #fff, #fff 4px, #eee 4px, #eee 8px)' }}><div className="absolute inset-0 flex items-center justify-center text-[8px] text-gray-400 font-bold opacity-50 select-none">RUB ME</div></div>)}
-      <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" style={{ overflow: 'visible' }}><line x1="0" y1="0" x2="50%" y2="60%" stroke={COLORS.wood} strokeWidth="2" /><line x1="100%" y1="0" x2="50%" y2="60%" stroke={COLORS.wood} strokeWidth="2" /></svg>
+      {snowOpacity > 0 && (<div className="absolute inset-[-4px] z-30 pointer-events-auto" style={{ opacity: snowOpacity, background: 'repeating-linear-gradient(45deg, #fff, #fff 4px, #eee 4px, #eee 8px)' }}><div className="absolute inset-0 flex items-center justify-center text-[8px] text-gray-400 font-bold opacity-50 select-none">{t('envelope.rubMe')}</div></div>)}
+      <svg className="absolute top-0 left-0 w-full h-full pointer-events-none" style={{ overflow: 'visible' }}><line x1="0" y1="0" x2="50%" y2="60%" stroke={palette.wood} strokeWidth="2" /><line x1="100%" y1="0" x2="50%" y2="60%" stroke={palette.wood} strokeWidth="2" /></svg>
       <div className="z-10 mt-3 transform scale-110"><PixelIcon id={data.id} /></div>
-      <div className="absolute bottom-1 right-2 text-[10px] sm:text-xs font-bold z-20" style={{ color: COLORS.wood }}>{data.id}</div>
+      <div className="absolute bottom-1 right-2 text-[10px] sm:text-xs font-bold z-20" style={{ color: palette.wood }}>{data.id}</div>
+      {challenge && !countdown && (<div className="absolute -top-3 -left-3 z-30 w-6 h-6 flex items-center justify-center text-[10px] font-bold pointer-events-none" style={{ backgroundColor: palette.sunsetOrange, color: '#000', border: `2px solid ${palette.wood}` }}>{CHALLENGE_BADGES[challenge]}</div>)}
+      {countdown && (<div className="absolute -top-3 left-1/2 -translate-x-1/2 z-30 whitespace-nowrap px-1 text-[8px] sm:text-[9px] font-bold pointer-events-none" style={{ backgroundColor: palette.wood, color: palette.cream, border: `2px solid ${palette.cream}` }}>⏳ {countdown}</div>)}
+      {readers.length > 0 && (<div className="absolute -bottom-2 left-1 z-30 flex gap-1 pointer-events-none">{readers.map(color => <div key={color} className="w-2 h-2" style={{ backgroundColor: color, border: `1px solid ${palette.wood}` }} />)}</div>)}
+      {hint && (
+        <div role="status" className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 z-40 whitespace-nowrap px-2 py-1 text-[8px] sm:text-[10px] text-white bg-black border-2 border-white pointer-events-none" style={{ boxShadow: '2px 2px 0 rgba(0,0,0,0.5)' }}>
+          {hint}
+          <div className="absolute top-full left-1/2 -translate-x-1/2 w-0 h-0 border-x-[6px] border-x-transparent border-t-[6px] border-t-white" />
+        </div>
+      )}
     </div>
   );
 };
 
+// --- Helper: Shape Base ---
+// What the assembled envelopes stand on: a trunk under trees, a plate under cakes, nothing under hearts
+const ShapeBase = ({ layout, className = '' }: { layout: TreeLayout, className?: string }) => {
+  const { shape, palette } = useTheme();
+  if (shape === 'tree') return <div className={`absolute w-14 h-32 bg-[#5C4033] border-4 border-[#3E2723] ${className}`} style={{ left: `${layout.trunk.x}%`, top: `${layout.trunk.y}%`, transform: 'translate(-50%, 0)' }} />;
+  if (shape !== 'cake') return null;
+  const plate = getCakePlate(layout);
+  return <div className={`absolute h-3 border-2 border-black/40 ${className}`} style={{ left: `${plate.x}%`, top: `${plate.y}%`, width: `${plate.width}%`, transform: 'translate(-50%, 0)', backgroundColor: palette.cream }} />;
+};
+
 // --- Helper: Draggable Star ---
-const DraggableStar = ({ onPlaced }: { onPlaced: () => void }) => {
+// The theme's topper (a star on trees). `readStick` is a gamepad's left stick: tilting it flies the star, letting go near the tip places it
+const STICK_SPEED = 600; // px/s at full tilt
+const DraggableStar = ({ target, onPlaced, readStick }: { target: Point, onPlaced: () => void, readStick?: () => Point }) => {
+    const { t } = useI18n();
+    const { topper } = useTheme();
     const [pos, setPos] = useState({ x: 0, y: 0 });
     const isDragging = useRef(false);
     const starRef = useRef<HTMLDivElement>(null);
-    useEffect(() => { gsap.fromTo(starRef.current, { y: 200, opacity: 0 }, { y: 0, opacity: 1, duration: 1, ease: 'back.out' }); }, []);
+    useEffect(() => {
+        gsap.fromTo(starRef.current, { y: 200, opacity: 0 }, { y: 0, opacity: 1, duration: 1, ease: 'back.out' });
+        starRef.current?.focus({ preventScroll: true });
+    }, []);
+    const placedRef = useRef(onPlaced);
+    placedRef.current = onPlaced;
+    useEffect(() => {
+        if (!readStick) return;
+        let frame = 0, last = 0, moved = false;
+        let at = { x: window.innerWidth / 2, y: window.innerHeight * 0.8 };
+        const tick = (time: number) => {
+            const dt = last ? Math.min(0.05, (time - last) / 1000) : 0;
+            last = time;
+            const stick = readStick();
+            if (stick.x !== 0 || stick.y !== 0) {
+                at = { x: Math.max(0, Math.min(window.innerWidth, at.x + stick.x * STICK_SPEED * dt)), y: Math.max(0, Math.min(window.innerHeight, at.y + stick.y * STICK_SPEED * dt)) };
+                moved = true;
+                setPos(at);
+            } else if (moved) {
+                moved = false;
+                if (Math.hypot(at.x - window.innerWidth * target.x / 100, at.y - window.innerHeight * target.y / 100) < 100) { placedRef.current(); return; }
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [readStick, target]);
+    // Keyboard players skip the drag: the star flies straight to the tip
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        setPos({ x: window.innerWidth * target.x / 100, y: window.innerHeight * target.y / 100 });
+        onPlaced();
+    };
     const handleMove = (clientX: number, clientY: number) => { if (!isDragging.current) return; setPos({ x: clientX, y: clientY }); };
     const handleEnd = () => {
         isDragging.current = false;
-        const treeTopX = window.innerWidth * 0.5; const treeTopY = window.innerHeight * 0.25; 
+        const treeTopX = window.innerWidth * target.x / 100; const treeTopY = window.innerHeight * target.y / 100; 
         const dist = Math.sqrt(Math.pow(pos.x - treeTopX, 2) + Math.pow(pos.y - treeTopY, 2));
         if (dist < 100) { onPlaced(); } else { gsap.to(starRef.current, { x: 0, y: 0, duration: 0.5, ease: 'elastic.out' }); setPos({ x: 0, y: 0 }); }
     };
     return (
         <div className="fixed z-[100] flex flex-col items-center justify-center" style={{ left: '50%', bottom: '20%', transform: `translate(calc(-50% + ${pos.x !== 0 ? pos.x - window.innerWidth/2 : 0}px), calc(${pos.y !== 0 ? pos.y - window.innerHeight * 0.8 : 0}px))` }}
             onMouseDown={(e) => { isDragging.current = true; handleMove(e.clientX, e.clientY); }} onTouchStart={(e) => { isDragging.current = true; handleMove(e.touches[0].clientX, e.touches[0].clientY); }} onMouseMove={(e) => handleMove(e.clientX, e.clientY)} onTouchMove={(e) => handleMove(e.touches[0].clientX, e.touches[0].clientY)} onMouseUp={handleEnd} onTouchEnd={handleEnd}>
-             <div ref={starRef} className="text-5xl sm:text-7xl filter drop-shadow-[0_0_15px_rgba(255,215,0,0.8)] cursor-grab active:cursor-grabbing animate-pulse hover:scale-110 transition-transform">⭐</div>
-             <div className="mt-4 text-white font-bold text-xs sm:text-sm animate-bounce pointer-events-none bg-black/50 px-2 py-1 rounded">DRAG ME TO THE TOP!</div>
+             <div ref={starRef} role="button" tabIndex={0} aria-label={t('star.label', { topper })} onKeyDown={onKeyDown} className="outline-none focus-visible:ring-4 focus-visible:ring-sunset text-5xl sm:text-7xl filter drop-shadow-[0_0_15px_rgba(255,215,0,0.8)] cursor-grab active:cursor-grabbing animate-pulse hover:scale-110 transition-transform">{topper}</div>
+             <div className="mt-4 text-white font-bold text-xs sm:text-sm animate-bounce pointer-events-none bg-black/50 px-2 py-1 rounded">{t('star.drag')}</div>
         </div>
     );
 };
 
+// --- Helper: Letter Pages ---
+// Views for the blocks of a letter body (see letterBody.ts). Pictures, carousels, memos and videos fill the same 3:2 frame.
+const letterFrame = (content: React.ReactNode) => <div className="relative p-1 bg-white"><div className="w-full aspect-[3/2] relative bg-black">{content}</div></div>;
+const LetterCaption = ({ text }: { text?: string }) => (text ? <p className="text-[10px] leading-relaxed text-[#B8C8D9] text-center whitespace-pre-wrap break-words">{text}</p> : null);
+
+const LetterCarousel = ({ images, title, playBlip }: { images: { url: string; caption?: string }[], title: string, playBlip: () => void }) => {
+  const { t } = useI18n();
+  const [index, setIndex] = useState(0);
+  const swipeStart = useRef<number | null>(null);
+  const go = (delta: number) => { playBlip(); setIndex((index + delta + images.length) % images.length); };
+  const onTouchEnd = (e: React.TouchEvent) => {
+    const dx = swipeStart.current === null ? 0 : e.changedTouches[0].clientX - swipeStart.current;
+    swipeStart.current = null;
+    if (Math.abs(dx) > 40) go(dx < 0 ? 1 : -1);
+  };
+  const image = images[index];
+  const arrow = "absolute top-1/2 -translate-y-1/2 w-8 h-8 flex items-center justify-center bg-black/60 border-2 border-white text-white text-xs hover:text-sunset active:scale-95";
+  return (
+    <>
+      <div onTouchStart={e => { swipeStart.current = e.touches[0].clientX; }} onTouchEnd={onTouchEnd}>
+        {letterFrame(<>
+          <img src={image.url} alt={image.caption ?? title} className="w-full h-full object-contain" />
+          <button onClick={() => go(-1)} className={`${arrow} left-2`} aria-label={t('letter.previous')}>◀</button>
+          <button onClick={() => go(1)} className={`${arrow} right-2`} aria-label={t('letter.next')}>▶</button>
+          <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-1" aria-hidden="true">{images.map((_, i) => <span key={i} className={`w-2 h-2 border border-white ${i === index ? 'bg-white' : 'bg-black/60'}`} />)}</div>
+        </>)}
+      </div>
+      <p className="sr-only" aria-live="polite">{t('letter.picture', { index: index + 1, total: images.length })}</p>
+      <LetterCaption text={image.caption} />
+    </>
+  );
+};
+
+// Tells the letter when it plays, so the music can duck; leaving the page mid-memo hands the music back
+const LetterMedia = ({ block, onPlaying }: { block: Extract<LetterBlock, { type: 'audio' | 'video' }>, onPlaying?: (playing: boolean) => void }) => {
+  const { t } = useI18n();
+  const onPlayingRef = useRef(onPlaying);
+  onPlayingRef.current = onPlaying;
+  useEffect(() => () => onPlayingRef.current?.(false), []);
+  const events = { onPlay: () => onPlaying?.(true), onPause: () => onPlaying?.(false), onEnded: () => onPlaying?.(false) };
+  return (
+    <>
+      {block.type === 'video'
+        ? letterFrame(<video src={block.url} poster={block.poster} controls playsInline preload="metadata" className="w-full h-full object-contain" aria-label={block.caption ?? t('letter.video')} {...events} />)
+        : letterFrame(
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-4">
+            <div className="text-4xl animate-pulse" aria-hidden="true">🎙️</div>
+            <audio src={block.url} controls preload="metadata" className="w-full max-w-xs" aria-label={block.caption ?? t('letter.voiceMemo')} {...events} />
+          </div>
+        )}
+      <LetterCaption text={block.caption} />
+    </>
+  );
+};
+
+// --- Helper: Reply Composer ---
+// Writes back under an open letter: a few lines and an optional sticker. Saving it empty deletes the reply.
+const ReplyComposer = ({ reply, onSave, playBlip }: { reply: Reply | null, onSave: (text: string, sticker?: number) => void, playBlip: () => void }) => {
+  const { t } = useI18n();
+  const { icons } = useTheme();
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState('');
+  const [sticker, setSticker] = useState<number | undefined>(undefined);
+  const startEditing = () => { playBlip(); setText(reply?.text ?? ''); setSticker(reply?.sticker); setEditing(true); };
+  const stickerBtn = (selected: boolean) => `w-8 h-8 flex items-center justify-center border-2 ${selected ? 'border-sunset bg-white/20' : 'border-white/40 bg-black/50 hover:border-white'}`;
+
+  if (!editing) {
+    return (
+      <div className="flex items-center gap-3 text-[10px] text-white">
+        {reply?.sticker !== undefined && <PixelIcon id={reply.sticker} />}
+        {reply && <p className="flex-1 truncate text-[#B8C8D9]">{reply.text}</p>}
+        <button onClick={startEditing} className="ml-auto uppercase tracking-widest hover:text-sunset">{t(reply ? 'reply.edit' : 'reply.write')}</button>
+      </div>
+    );
+  }
+  return (
+    // Escape only cancels the reply; the letter stays open
+    <form className="flex flex-col gap-2 text-white" onSubmit={e => { e.preventDefault(); onSave(text.trim(), sticker); setEditing(false); }}
+      onKeyDown={e => { if (e.key === 'Escape') { e.stopPropagation(); setEditing(false); } }}>
+      <label htmlFor="reply-text" className="text-[10px] uppercase tracking-widest text-sunset">{t('reply.label')}</label>
+      <textarea id="reply-text" autoFocus rows={3} maxLength={MAX_REPLY_LENGTH} value={text} onChange={e => setText(e.target.value)} placeholder={t('reply.placeholder')}
+        className="w-full p-2 bg-black text-white border-2 border-white text-xs leading-relaxed font-mono outline-none resize-none focus:border-sunset" />
+      <div className="text-right text-[8px] text-gray-400">{text.length}/{MAX_REPLY_LENGTH}</div>
+      <div role="radiogroup" aria-label={t('reply.sticker')} className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] uppercase tracking-widest text-[#B8C8D9] mr-1">{t('reply.sticker')}</span>
+        <button type="button" role="radio" aria-checked={sticker === undefined} aria-label={t('reply.noSticker')} onClick={() => setSticker(undefined)} className={`${stickerBtn(sticker === undefined)} text-[10px]`}>∅</button>
+        {icons.map((_, i) => (
+          <button key={i} type="button" role="radio" aria-checked={sticker === i} aria-label={t('reply.stickerN', { n: i + 1 })} onClick={() => { playBlip(); setSticker(i); }} className={stickerBtn(sticker === i)}><PixelIcon id={i} /></button>
+        ))}
+      </div>
+      <div className="flex justify-end gap-4 text-[10px] uppercase tracking-widest">
+        <button type="button" onClick={() => setEditing(false)} className="hover:text-sunset">{t('reply.cancel')}</button>
+        <button type="submit" className="px-3 py-1 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95">{t('reply.save')}</button>
+      </div>
+    </form>
+  );
+};
+
+// --- Helper: Marked-up Text ---
+// Draws the first `shown` typing steps of a letter's text with their styles (see letterMarkup.ts).
+// Shaking letters wobble one by one, out of step; reduced motion leaves them still.
+const MarkupText = ({ tokens, steps, shown }: { tokens: MarkupToken[], steps: TypingStep[], shown: number }) => {
+  const revealed: Record<number, string> = {};
+  steps.slice(0, shown).forEach(step => { if (step.token >= 0) revealed[step.token] = (revealed[step.token] ?? '') + step.text; });
+  return (
+    <>
+      {tokens.map((token, i) => {
+        const text = revealed[i];
+        if (token.type !== 'text' || !text) return null;
+        const { bold, color, shake } = token.style;
+        return (
+          <span key={i} className={bold ? 'font-bold' : undefined} style={color ? { color } : undefined}>
+            {shake ? splitGraphemes(text).map((g, j) => <span key={j} className="inline-block" style={{ animation: 'letterShake 0.3s steps(2) infinite', animationDelay: `${-j * 70}ms` }}>{g}</span>) : text}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
 // --- Helper: Retro Modal ---
-interface ModalProps { data: EnvelopeData | null; onClose: () => void; playBlip: () => void; }
-const Modal: React.FC<ModalProps> = ({ data, onClose, playBlip }) => {
-  const [displayedText, setDisplayedText] = useState('');
-  const textIndex = useRef(0);
+// `inline` renders just the card with the full text (previews, print), without overlay or typewriter
+interface ModalProps {
+  data: EnvelopeData | null; onClose: () => void; playBlip: () => void; inline?: boolean;
+  reply?: Reply | null; onReply?: (text: string, sticker?: number) => void; // Shows the reply composer under the letter
+  onMediaPlaying?: (playing: boolean) => void; // A voice memo or video started or stopped, to duck the music
+  playSound?: (sound: MarkupSound) => void; // [sound=...] cues in the text
+}
+// Letters with a body page through their blocks (NEXT marks the button a controller's A presses); inline shows every page at once.
+// Tapping the text, or NEXT while it is still typing, shows the rest of the page at once.
+const Modal: React.FC<ModalProps> = ({ data, onClose, playBlip, inline = false, reply = null, onReply, onMediaPlaying, playSound }) => {
+  const { t } = useI18n();
+  const { palette } = useTheme();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef, onClose, !inline);
+  const pages = useMemo(() => (data ? getLetterPages(data) : []), [data]);
+  const [page, setPage] = useState(0);
+  useEffect(() => { setPage(0); }, [data?.id]);
+  const block = pages[Math.min(page, pages.length - 1)];
+  const pageText = block?.type === 'text' ? block.text : '';
+  const tokens = useMemo(() => parseMarkup(pageText).tokens, [pageText]);
+  const steps = useMemo(() => toTypingSteps(tokens), [tokens]);
+  const [shown, setShown] = useState(0);
+  const shownRef = useRef(0);
+  const reveal = (count: number) => { shownRef.current = count; setShown(count); };
   useEffect(() => {
-    if (!data) return; setDisplayedText(''); textIndex.current = 0;
-    const fullText = data.message;
-    const interval = setInterval(() => { 
-        if (textIndex.current < fullText.length) { 
-            textIndex.current++; setDisplayedText(fullText.slice(0, textIndex.current));
-            if (textIndex.current % 2 === 0) playBlip(); 
-        } else { clearInterval(interval); } 
-    }, 40);
-    return () => clearInterval(interval);
-  }, [data]);
-  if (!data) return null;
-  return (
-    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-[2px] p-4 animate-[fadeIn_0.2s_ease-out]">
-      <style>{`@keyframes popIn { 0% { transform: scale(0); } 80% { transform: scale(1.1); } 100% { transform: scale(1); } } @keyframes fadeIn { 0% { opacity: 0; } 100% { opacity: 1; } }`}</style>
-      <div className="relative w-full max-w-lg origin-center transform" onClick={(e) => e.stopPropagation()} style={{ backgroundColor: COLORS.nightBlue, boxShadow: `inset 0 0 0 4px ${COLORS.nightBlue}, inset 0 0 0 8px #fff, 0 0 0 4px #000, 10px 10px 0 rgba(0,0,0,0.5)`, border: '4px solid #fff', animation: 'popIn 0.3s steps(5) forwards', padding: '16px' }}>
+    if (inline) return;
+    reveal(0);
+    let timer: number;
+    let letters = 0;
+    // One timeout per step, so pauses and speed changes are just longer or shorter waits
+    const schedule = () => {
+      const step = steps[shownRef.current];
+      if (!step) return;
+      timer = window.setTimeout(() => {
+        if (shownRef.current >= steps.length) return; // Skipped
+        step.sounds.forEach(sound => playSound?.(sound));
+        if (step.text.trim() && ++letters % 2 === 0) playBlip(); // Blips follow the letters, so they stop during pauses
+        reveal(shownRef.current + 1);
+        schedule();
+      }, step.delay);
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [data, page, steps, inline]);
+  const typing = !inline && shown < steps.length;
+  const skip = () => reveal(steps.length); // Cues not yet reached stay silent
+  if (!data || !block) return null;
+  const paged = pages.length > 1;
+  const isLast = page >= pages.length - 1;
+  const turn = (delta: number) => { playBlip(); setPage(page + delta); };
+  const next = () => { if (typing) skip(); else if (isLast) onClose(); else turn(1); };
+
+  const textBox = (text: string, key?: number) => {
+      const markup = inline ? parseMarkup(text).tokens : tokens;
+      return (
+      <div key={key} onClick={typing ? skip : undefined} className="min-h-[80px] p-4 text-xs sm:text-sm leading-loose font-mono text-white relative mt-2" style={{ backgroundColor: '#000', border: '2px solid #fff', boxShadow: '4px 4px 0 rgba(0,0,0,0.3)', fontFamily: '"Press Start 2P", "SimSun", "Microsoft YaHei", monospace' }}>
+          <p className="whitespace-pre-wrap break-words" aria-hidden={inline ? undefined : true}><MarkupText tokens={markup} steps={inline ? toTypingSteps(markup) : steps} shown={inline ? Infinity : shown} />{!inline && <span className="inline-block w-2 h-4 ml-1 animate-pulse bg-white"></span>}</p>
+          {!inline && <p className="sr-only">{markupToPlainText(markup)}</p>}
+          {!inline && !paged && <button data-letter-next onClick={e => { e.stopPropagation(); next(); }} className="absolute bottom-2 right-2 text-[10px] uppercase hover:text-sunset animate-pulse">{t('modal.next')}</button>}
+      </div>
+      );
+  };
+  const blockView = (b: LetterBlock, key?: number) => {
+      switch (b.type) {
+          case 'text': return textBox(b.text, key);
+          case 'image': return <React.Fragment key={key}>{letterFrame(<img src={b.url} alt={b.caption ?? data.title} className="w-full h-full object-contain" />)}<LetterCaption text={b.caption} /></React.Fragment>;
+          case 'carousel':
+              if (!inline) return <LetterCarousel key={key} images={b.images} title={data.title} playBlip={playBlip} />;
+              return <React.Fragment key={key}>{b.images.map((img, i) => <React.Fragment key={i}>{letterFrame(<img src={img.url} alt={img.caption ?? data.title} className="w-full h-full object-contain" />)}<LetterCaption text={img.caption} /></React.Fragment>)}</React.Fragment>;
+          case 'audio':
+          case 'video':
+              return <LetterMedia key={key} block={b} onPlaying={onMediaPlaying} />;
+      }
+  };
+  const illustration = letterFrame(<img src={data.imageUrl} alt={data.title} className="w-full h-full object-contain"/>);
+
+  const card = (
+      <div className={`relative w-full max-w-lg origin-center transform ${inline ? '' : 'max-h-full overflow-y-auto'}`} onClick={(e) => e.stopPropagation()} style={{ backgroundColor: palette.nightBlue, boxShadow: `inset 0 0 0 4px ${palette.nightBlue}, inset 0 0 0 8px #fff, 0 0 0 4px #000, 10px 10px 0 rgba(0,0,0,0.5)`, border: '4px solid #fff', animation: inline ? 'none' : 'popIn 0.3s steps(5) forwards', padding: '16px' }}>
         <div className="p-4 flex flex-col gap-4 border-4 border-transparent" style={{ marginTop: '4px'}}>
-            <div className="flex justify-between items-center border-b-4 border-white pb-2 mb-2"><span className="text-xs uppercase tracking-widest text-[#FFAD66]">MEMORY_LOG_#{String(data.id).padStart(2,'0')}</span><span className="text-[10px] text-gray-400">{data.title}</span></div>
-            <div className="relative p-1 bg-white"><div className="w-full aspect-[3/2] relative bg-black"><img src={data.imageUrl} alt="Memory" className="w-full h-full object-contain"/></div></div>
-            <div className="min-h-[80px] p-4 text-xs sm:text-sm leading-loose font-mono text-white relative mt-2" style={{ backgroundColor: '#000', border: '2px solid #fff', boxShadow: '4px 4px 0 rgba(0,0,0,0.3)', fontFamily: '"Press Start 2P", "SimSun", "Microsoft YaHei", monospace' }}>
-                <p className="whitespace-pre-wrap break-words">{displayedText}<span className="inline-block w-2 h-4 ml-1 animate-pulse bg-white"></span></p>
-                <button onClick={onClose} className="absolute bottom-2 right-2 text-[10px] uppercase hover:text-[#FFAD66] animate-pulse">▼ NEXT</button>
-            </div>
+            <div className="flex justify-between items-center border-b-4 border-white pb-2 mb-2"><span className="text-xs uppercase tracking-widest text-sunset">MEMORY_LOG_#{String(data.id).padStart(2,'0')}</span><span id={inline ? undefined : 'letter-title'} className="text-[10px] text-gray-400">{data.title}</span></div>
+            {inline ? (
+                <>{illustration}{pages.map((b, i) => blockView(b, i))}</>
+            ) : (
+                // Keyed by page, so carousels start at their first picture and media stop when the page turns
+                <React.Fragment key={`${data.id}:${page}`}>{block.type === 'text' && illustration}{blockView(block)}</React.Fragment>
+            )}
+            {paged && !inline && (
+                <div className="flex justify-between items-center text-[10px] uppercase text-white">
+                    <button onClick={() => turn(-1)} disabled={page === 0} className="hover:text-sunset disabled:opacity-30">{t('modal.back')}</button>
+                    <span className="text-gray-400">{t('modal.page', { page: page + 1, total: pages.length })}</span>
+                    <button data-letter-next onClick={next} className="hover:text-sunset animate-pulse">{t(isLast ? 'modal.next' : 'modal.more')}</button>
+                </div>
+            )}
+            {onReply && !inline && isLast && <div className="border-t-2 border-dashed border-white/40 pt-3"><ReplyComposer key={data.id} reply={reply} onSave={onReply} playBlip={playBlip} /></div>}
         </div>
       </div>
+  );
+  if (inline) return card;
+  return (
+    <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="letter-title" tabIndex={-1} className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-[2px] p-4 animate-[fadeIn_0.2s_ease-out] outline-none">
+      <style>{`@keyframes popIn { 0% { transform: scale(0); } 80% { transform: scale(1.1); } 100% { transform: scale(1); } } @keyframes fadeIn { 0% { opacity: 0; } 100% { opacity: 1; } } @keyframes letterShake { 0% { transform: translate(-1px, 1px); } 50% { transform: translate(1px, -1px); } 100% { transform: none; } }`}</style>
+      {card}
     </div>
   );
 };
 
+// --- Helper: Challenges ---
+// One view per challenge type. Views call onResult for every try; a failed try keeps the window open.
+interface ChallengeViewProps<T extends ChallengeSpec> { spec: T; onResult: (passed: boolean) => void; playSynth: (type: SynthType) => void; }
+const challengeBtn = "px-3 py-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-[10px] uppercase tracking-widest disabled:opacity-40";
+
+const QuizChallenge: React.FC<ChallengeViewProps<Extract<ChallengeSpec, { type: 'quiz' }>>> = ({ spec, onResult, playSynth }) => {
+    const { t } = useI18n();
+    const [answer, setAnswer] = useState('');
+    const [wrong, setWrong] = useState(false);
+    const submit = (value: string) => {
+        const passed = checkQuizAnswer(spec, value);
+        setWrong(!passed);
+        if (!passed) { playSynth('buzz'); setTimeout(() => setWrong(false), 400); }
+        onResult(passed);
+    };
+    return (
+        <div className="flex flex-col gap-4" style={{ animation: wrong ? 'errorShake 0.4s both' : 'none' }}>
+            <p className="text-xs sm:text-sm leading-loose text-white">{spec.question}</p>
+            {spec.choices ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {spec.choices.map(choice => <button key={choice} className={challengeBtn} onClick={() => submit(choice)}>{choice}</button>)}
+                </div>
+            ) : (
+                <form className="flex gap-2" onSubmit={e => { e.preventDefault(); submit(answer); }}>
+                    <input autoFocus value={answer} onChange={e => setAnswer(e.target.value)} className="flex-1 px-2 py-2 bg-black border-2 border-white text-white text-xs outline-none focus:border-sunset" />
+                    <button type="submit" className={challengeBtn} disabled={answer.trim() === ''}>OK</button>
+                </form>
+            )}
+            {wrong && <p className="text-[10px] text-sunset">{t('quiz.wrong')}</p>}
+        </div>
+    );
+};
+
+const MemoryChallenge: React.FC<ChallengeViewProps<Extract<ChallengeSpec, { type: 'memory' }>>> = ({ spec, onResult, playSynth }) => {
+    const { t } = useI18n();
+    const { palette } = useTheme();
+    const [deck] = useState(() => createMemoryDeck(spec.pairs));
+    const [flipped, setFlipped] = useState<number[]>([]);
+    const [matched, setMatched] = useState<Set<number>>(new Set());
+    const flip = (index: number) => {
+        if (flipped.length === 2 || flipped.includes(index) || matched.has(deck[index])) return;
+        playSynth('blip');
+        const next = [...flipped, index];
+        setFlipped(next);
+        if (next.length < 2) return;
+        if (deck[next[0]] === deck[next[1]]) {
+            const done = new Set(matched).add(deck[index]);
+            setMatched(done); setFlipped([]); playSynth('coin');
+            if (done.size * 2 === deck.length) setTimeout(() => onResult(true), 400);
+        } else {
+            setTimeout(() => setFlipped([]), 700);
+        }
+    };
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="text-[10px] text-[#B8C8D9] tracking-widest">{t('memory.prompt')}</p>
+            <div className="grid grid-cols-4 gap-2">
+                {deck.map((value, i) => {
+                    const open = flipped.includes(i) || matched.has(value);
+                    return (
+                        <button key={i} onClick={() => flip(i)} className="aspect-square flex items-center justify-center border-2 border-white transition-transform active:scale-95" style={{ backgroundColor: open ? palette.cream : palette.deepPineGreen, opacity: matched.has(value) ? 0.6 : 1 }}>
+                            {open ? <PixelIcon id={value} /> : <span className="text-white text-xs">?</span>}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const RhythmChallenge: React.FC<ChallengeViewProps<Extract<ChallengeSpec, { type: 'rhythm' }>>> = ({ spec, onResult, playSynth }) => {
+    const { t } = useI18n();
+    const { palette } = useTheme();
+    const [pattern] = useState(() => createRhythmPattern(spec.beats));
+    const [mode, setMode] = useState<'idle' | 'listen' | 'play'>('idle');
+    const [beat, setBeat] = useState(-1);
+    const [wrong, setWrong] = useState(false);
+    const taps = useRef<number[]>([]);
+    const timers = useRef<ReturnType<typeof setTimeout>[]>([]);
+    useEffect(() => () => timers.current.forEach(clearTimeout), []);
+
+    const listen = () => {
+        setMode('listen'); setWrong(false); taps.current = [];
+        let at = 300;
+        [0, ...pattern].forEach((gap, i) => {
+            at += gap;
+            timers.current.push(setTimeout(() => { setBeat(i); playSynth('jump'); }, at));
+        });
+        timers.current.push(setTimeout(() => { setBeat(-1); setMode('play'); }, at + 400));
+    };
+    const tap = () => {
+        if (mode !== 'play') return;
+        playSynth('blip');
+        taps.current.push(performance.now());
+        setBeat(taps.current.length - 1);
+        if (taps.current.length < pattern.length + 1) return;
+        const passed = judgeRhythm(pattern, taps.current);
+        setMode('idle'); setBeat(-1);
+        if (!passed) { setWrong(true); playSynth('buzz'); }
+        onResult(passed);
+    };
+    // Keys tap on press like the mouse, once per press; their own clicks are cancelled so the controller's el.click() (detail 0) is the only click that taps
+    const onTapKey = (e: React.KeyboardEvent) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        if (!e.repeat) tap();
+    };
+    return (
+        <div className="flex flex-col items-center gap-4">
+            <div className="flex gap-2">
+                {[0, ...pattern].map((_, i) => <div key={i} className="w-4 h-4 border-2 border-white transition-colors" style={{ backgroundColor: i <= beat ? palette.sunsetOrange : 'transparent' }} />)}
+            </div>
+            {mode === 'play' ? (
+                <button onMouseDown={tap} onTouchStart={e => { e.preventDefault(); tap(); }} onKeyDown={onTapKey} onKeyUp={e => { if (e.key === ' ') e.preventDefault(); }} onClick={e => { if (e.detail === 0) tap(); }} className="w-28 h-28 rounded-full border-4 border-white text-xs font-bold active:scale-90 transition-transform" style={{ backgroundColor: palette.scarfRed }}>{t('rhythm.tap')}</button>
+            ) : (
+                <button onClick={listen} disabled={mode === 'listen'} className={challengeBtn}>{t(mode === 'listen' ? 'rhythm.listening' : wrong ? 'rhythm.again' : 'rhythm.listen')}</button>
+            )}
+            <p className="text-[10px] text-[#B8C8D9] text-center leading-relaxed">{t(wrong ? 'rhythm.wrong' : 'rhythm.prompt')}</p>
+        </div>
+    );
+};
+
+type ChallengeSpecOf<K extends ChallengeType> = Extract<ChallengeSpec, { type: K }>;
+const CHALLENGE_VIEWS: { [K in ChallengeType]?: React.FC<ChallengeViewProps<ChallengeSpecOf<K>>> } = {
+    quiz: QuizChallenge,
+    memory: MemoryChallenge,
+    rhythm: RhythmChallenge,
+};
+// Generic over the type, so the view found for a spec takes that spec (snow plays on the envelope and has none)
+const getChallengeView = <K extends ChallengeType>(type: K): React.FC<ChallengeViewProps<ChallengeSpecOf<K>>> | undefined => CHALLENGE_VIEWS[type];
+const CHALLENGE_BADGES: Record<ChallengeType, string> = { snow: '❄', quiz: '?', memory: '🃏', rhythm: '♪' };
+
+interface ChallengeModalProps { envelopeId: number; spec: ChallengeSpec; onResult: (passed: boolean) => void; onCancel: () => void; playSynth: (type: SynthType) => void; }
+const ChallengeModal: React.FC<ChallengeModalProps> = ({ envelopeId, spec, onResult, onCancel, playSynth }) => {
+    const { t } = useI18n();
+    const { palette } = useTheme();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useFocusTrap(dialogRef, onCancel);
+    const View = getChallengeView(spec.type);
+    if (!View) return null;
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-[2px] p-4 animate-[fadeIn_0.2s_ease-out]">
+            <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="challenge-title" tabIndex={-1} className="relative w-full max-w-md outline-none" style={{ backgroundColor: palette.nightBlue, boxShadow: `inset 0 0 0 4px ${palette.nightBlue}, inset 0 0 0 8px #fff, 0 0 0 4px #000, 10px 10px 0 rgba(0,0,0,0.5)`, border: '4px solid #fff', padding: '24px' }}>
+                <div className="flex justify-between items-center border-b-4 border-white pb-2 mb-4">
+                    <span id="challenge-title" className="text-xs uppercase tracking-widest text-sunset">{t(`challenge.${spec.type}`)}</span>
+                    <span className="text-[10px] text-gray-400">{t('challenge.letter', { id: String(envelopeId).padStart(2, '0') })}</span>
+                </div>
+                <View spec={spec} onResult={onResult} playSynth={playSynth} />
+                <div className="mt-6 text-right"><button onClick={onCancel} className="text-[10px] uppercase text-white hover:text-sunset">{t('challenge.later')}</button></div>
+            </div>
+        </div>
+    );
+};
+
+// --- Helper: Print Booklet ---
+// Every letter as a page, drawn with the Modal card. Rendered into <body> so the print styles in index.css can hide the game.
+const PrintBooklet = ({ story, onClose }: { story: StoryPack, onClose: () => void }) => {
+    const { t, locale } = useI18n();
+    const { palette, topper } = useTheme();
+    const envelopes = useMemo(() => localizeStory(story, locale).envelopes, [story, locale]);
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useFocusTrap(dialogRef, onClose);
+    return createPortal(
+    <div ref={dialogRef} role="dialog" aria-modal="true" aria-label={t('completed.print')} tabIndex={-1} className="outline-none print-booklet fixed inset-0 z-[95] overflow-y-auto p-4 sm:p-8" style={{ ...sunsetVar(palette), backgroundColor: palette.nightBlue, fontFamily: '"Press Start 2P", cursive', touchAction: 'pan-y' }}>
+        <div className="print-toolbar sticky top-0 z-10 flex justify-between items-center gap-4 mb-8 p-3 bg-black/80 border-2 border-white text-white">
+            <span className="text-[10px] sm:text-xs tracking-widest text-sunset">{t('booklet.header', { count: story.envelopes.length })}</span>
+            <div className="flex gap-2">
+                <button onClick={() => window.print()} className="px-3 py-1 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 text-[10px] uppercase tracking-widest">{t('booklet.print')}</button>
+                <button onClick={onClose} className="px-3 py-1 text-[10px] uppercase hover:text-sunset">{t('booklet.close')}</button>
+            </div>
+        </div>
+        <section className="print-page flex flex-col items-center justify-center gap-6 min-h-[60vh] text-center text-white">
+            <div className="text-6xl" style={{ filter: 'drop-shadow(0 0 10px #FFD700)' }}>{topper}</div>
+            <h1 className="text-lg sm:text-2xl leading-loose" style={{ color: palette.sunsetOrange }}>{story.title ?? t('booklet.defaultTitle')}</h1>
+            <p className="text-[10px] text-[#B8C8D9]">{t('booklet.count', { count: story.envelopes.length })}</p>
+        </section>
+        {envelopes.map(env => (
+            <section key={env.id} className="print-page flex justify-center py-8">
+                <Modal data={env} onClose={() => {}} playBlip={() => {}} inline />
+            </section>
+        ))}
+    </div>,
+    document.body
+    );
+};
+
+// --- Helper: Replies ---
+// The answers written under each letter, in letter order. With `exportable` (the recipient's view) they can be
+// sent back as a file or a link; the sender sees the same list when opening either.
+const RepliesModal = ({ story, bundle, onClose, playBlip, exportable = false }: { story: StoryPack, bundle: ReplyBundle, onClose: () => void, playBlip: () => void, exportable?: boolean }) => {
+    const { t, locale } = useI18n();
+    const { palette } = useTheme();
+    const envelopes = useMemo(() => localizeStory(story, locale).envelopes, [story, locale]);
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useFocusTrap(dialogRef, onClose);
+    const [linkUrl, setLinkUrl] = useState('');
+    const [status, setStatus] = useState('');
+    // Replies to an edited or different card still show, just without the letter titles
+    const titles = repliesMatchStory(bundle, story) ? new Map(envelopes.map(e => [e.id, e.title])) : new Map<number, string>();
+
+    const saveFile = () => { playBlip(); downloadText(`replies-${bundle.storyId}.json`, toRepliesJson(bundle)); };
+    const copyLink = async () => {
+        playBlip();
+        try {
+            const url = await createRepliesLink(bundle);
+            setLinkUrl(url);
+            await navigator.clipboard?.writeText(url).catch(() => {});
+            setStatus(t('replies.copied'));
+        } catch (e) {
+            setStatus(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-[fadeIn_0.3s]">
+            <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="replies-title" tabIndex={-1} className="relative w-full max-w-md max-h-full flex flex-col origin-center outline-none text-white" style={{ backgroundColor: palette.nightBlue, boxShadow: `inset 0 0 0 4px ${palette.nightBlue}, inset 0 0 0 8px #fff, 0 0 0 4px #000, 10px 10px 0 rgba(0,0,0,0.5)`, border: '4px solid #fff', padding: '24px' }}>
+                <div className="flex justify-between items-center border-b-4 border-white pb-3 mb-4">
+                    <h2 id="replies-title" className="text-sunset text-sm sm:text-base font-bold tracking-widest pixel-text-glow">{t('replies.title')}</h2>
+                    <button onClick={onClose} className="text-white hover:text-sunset text-xs uppercase transition-colors">{t('credits.close')}</button>
+                </div>
+                <div className="flex-1 overflow-y-auto flex flex-col gap-3 pr-1" style={{ touchAction: 'pan-y' }}>
+                    {bundle.replies.length === 0 && <p className="text-[10px] text-[#B8C8D9] leading-relaxed">{t('replies.empty')}</p>}
+                    {bundle.replies.map(reply => (
+                        <article key={reply.id} className="bg-black/30 p-3 border-2 border-white shadow-[2px_2px_0_rgba(0,0,0,0.3)]">
+                            <div className="flex justify-between items-center gap-2 mb-2">
+                                <span className="text-[10px] uppercase tracking-widest text-sunset">MEMORY_LOG_#{String(reply.id).padStart(2, '0')}</span>
+                                <span className="text-[8px] text-gray-400 truncate">{titles.get(reply.id)}</span>
+                            </div>
+                            <div className="flex gap-3 items-start">
+                                {reply.sticker !== undefined && <div className="shrink-0 p-1 bg-white/10 border-2 border-white/40"><PixelIcon id={reply.sticker} /></div>}
+                                <p className="text-[10px] leading-relaxed whitespace-pre-wrap break-words font-mono">{reply.text}</p>
+                            </div>
+                        </article>
+                    ))}
+                </div>
+                {exportable && bundle.replies.length > 0 && (
+                    <div className="mt-4 pt-3 border-t-2 border-white/30">
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={saveFile} className="px-3 py-1 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 text-[10px] uppercase tracking-widest">{t('replies.file')}</button>
+                            <button onClick={copyLink} className="px-3 py-1 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 text-[10px] uppercase tracking-widest">{t('replies.link')}</button>
+                        </div>
+                        {linkUrl && <input readOnly value={linkUrl} aria-label={t('replies.link')} onFocus={e => e.target.select()} className="w-full mt-2 px-2 py-1 bg-black text-sunset border-2 border-white font-mono text-[8px] outline-none" />}
+                        {status && <p role="status" className="mt-2 text-[10px] text-[#B8C8D9] leading-relaxed">{status}</p>}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// --- Helper: Keepsake Download ---
+const KeepsakeButton = ({ story, layout, playBlip }: { story: StoryPack, layout: TreeLayout, playBlip: () => void }) => {
+    const { t } = useI18n();
+    const theme = useTheme();
+    const { palette } = theme;
+    const [open, setOpen] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const save = async (format: KeepsakeFormat) => {
+        playBlip(); setBusy(true);
+        try {
+            const blob = await canvasToPng(await renderKeepsake(story, layout, format, getThemeText(theme, t).banner));
+            downloadBlob(`${story.id}-${format}.png`, blob);
+            setOpen(false);
+        } catch (e) {
+            console.warn('[Keepsake] Could not create the image', e);
+        } finally {
+            setBusy(false);
+        }
+    };
+    return (
+        <div className="relative">
+            {open && (
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 flex flex-col gap-1 p-1 bg-black/80 border-2 border-white">
+                    {(Object.keys(KEEPSAKE_FORMATS) as KeepsakeFormat[]).map(format => (
+                        <button key={format} disabled={busy} onClick={() => save(format)} className="px-3 py-2 whitespace-nowrap text-[10px] uppercase tracking-widest text-white hover:text-sunset disabled:opacity-40">{t(`keepsake.${format}`)}</button>
+                    ))}
+                </div>
+            )}
+            <button onClick={() => { playBlip(); setOpen(o => !o); }} className="px-6 py-3 text-sm sm:text-base font-bold uppercase tracking-widest transition-colors hover:scale-105 active:scale-95" style={{ backgroundColor: palette.sunsetOrange, color: palette.wood, boxShadow: `4px 4px 0 ${palette.wood}`, border: `2px solid ${palette.wood}` }}>{busy ? '...' : t('keepsake.save')}</button>
+        </div>
+    );
+};
+
 // --- Helper: Cover Screen ---
-interface CoverScreenProps { onStart: () => void; playBlip: () => void; playBtn: () => void; onOpenCredits: () => void; }
-const CoverScreen: React.FC<CoverScreenProps> = ({ onStart, playBlip, playBtn, onOpenCredits }) => {
+interface CoverScreenProps { onStart: () => void; onContinue?: () => void; onUnlock?: (passphrase: string) => Promise<string | null>; playBlip: () => void; playBtn: () => void; onOpenCredits: () => void; }
+const CoverScreen: React.FC<CoverScreenProps> = ({ onStart, onContinue, onUnlock, playBlip, playBtn, onOpenCredits }) => {
+  const { t } = useI18n();
+  const { palette } = useTheme();
   const [textFinished, setTextFinished] = useState(false);
   const [displayedText, setDisplayedText] = useState('');
-  const fullText = "Save point reached.\nMemories ready to replay.";
+  const fullText = getThemeText(useTheme(), t).cover;
   const indexRef = useRef(0);
   useEffect(() => {
     setDisplayedText(''); indexRef.current = 0;
+    const chars = splitGraphemes(fullText);
     const interval = setInterval(() => {
       const idx = indexRef.current;
-      if (idx < fullText.length) {
-        setDisplayedText(prev => fullText.substring(0, idx + 1));
+      if (idx < chars.length) {
+        setDisplayedText(chars.slice(0, idx + 1).join(''));
         if (idx % 2 === 0) playBlip(); indexRef.current = idx + 1;
       } else { setTextFinished(true); clearInterval(interval); }
     }, 80);
     return () => clearInterval(interval);
-  }, []);
+  }, [fullText]);
   return (
     <div className="absolute inset-x-0 bottom-0 z-20 flex flex-col items-center justify-end pb-10 sm:pb-16 pointer-events-none">
-        <div className="pointer-events-auto w-[90%] max-w-lg p-6 sm:p-8 backdrop-blur-sm animate-[pulse_3s_infinite] flex flex-col items-center text-center gap-6" style={{ backgroundColor: `${COLORS.deepPineGreen}EE`, boxShadow: `0 0 0 4px ${COLORS.cream}, 0 8px 0 rgba(0,0,0,0.4)` }}>
-            <p className="pixel-text-glow text-sm sm:text-lg leading-relaxed tracking-wider font-mono whitespace-pre-line drop-shadow-md" style={{ color: COLORS.cream }}>{displayedText}<span className={`inline-block w-3 h-5 ml-2 align-middle ${textFinished ? 'opacity-0' : 'animate-pulse'}`} style={{ backgroundColor: COLORS.cream }}></span></p>
+        <div className="pointer-events-auto w-[90%] max-w-lg p-6 sm:p-8 backdrop-blur-sm animate-[pulse_3s_infinite] flex flex-col items-center text-center gap-6" style={{ backgroundColor: `${palette.deepPineGreen}EE`, boxShadow: `0 0 0 4px ${palette.cream}, 0 8px 0 rgba(0,0,0,0.4)` }}>
+            <p className="pixel-text-glow text-sm sm:text-lg leading-relaxed tracking-wider font-mono whitespace-pre-line drop-shadow-md" style={{ color: palette.cream }}>{displayedText}<span className={`inline-block w-3 h-5 ml-2 align-middle ${textFinished ? 'opacity-0' : 'animate-pulse'}`} style={{ backgroundColor: palette.cream }}></span></p>
+            {onUnlock ? (
+                <div className={`w-full transition-opacity duration-500 ${textFinished ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}><PassphraseForm onUnlock={onUnlock} /></div>
+            ) : (
             <div className={`flex flex-col gap-3 items-center transition-opacity duration-500 ${textFinished ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
-                 <button onClick={onStart} className="group relative px-6 py-2 text-lg sm:text-xl uppercase font-bold tracking-widest transition-colors animate-pulse hover:scale-105 active:scale-95" style={{ color: COLORS.sunsetOrange, textShadow: '2px 2px 0 #000' }}><span className="absolute left-0 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 group-hover:-translate-x-4 transition-all">▶</span>Start Game</button>
-                 <button onClick={() => { playBtn(); onOpenCredits(); }} className="text-[10px] text-gray-400 uppercase tracking-widest hover:text-white mt-2 border-b border-transparent hover:border-white transition-all">View Dev Log</button>
+                 {onContinue && (<button onClick={onContinue} className="group relative px-6 py-2 text-lg sm:text-xl uppercase font-bold tracking-widest transition-colors animate-pulse hover:scale-105 active:scale-95" style={{ color: palette.sunsetOrange, textShadow: '2px 2px 0 #000' }}><span className="absolute left-0 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 group-hover:-translate-x-4 transition-all">▶</span>{t('cover.continue')}</button>)}
+                 <button onClick={onStart} className={`group relative px-6 py-2 uppercase font-bold tracking-widest transition-colors hover:scale-105 active:scale-95 ${onContinue ? 'text-sm sm:text-base' : 'text-lg sm:text-xl animate-pulse'}`} style={{ color: onContinue ? palette.cream : palette.sunsetOrange, textShadow: '2px 2px 0 #000' }}><span className="absolute left-0 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 group-hover:-translate-x-4 transition-all">▶</span>{t(onContinue ? 'cover.newGame' : 'cover.start')}</button>
+                 <button onClick={() => { playBtn(); onOpenCredits(); }} className="text-[10px] text-gray-400 uppercase tracking-widest hover:text-white mt-2 border-b border-transparent hover:border-white transition-all">{t('cover.devLog')}</button>
             </div>
+            )}
         </div>
     </div>
   );
 };
 
-const SecretModal = ({ onClose }: { onClose: () => void }) => {
+// --- Helper: Passphrase Form (protected share links) ---
+const PassphraseForm = ({ onUnlock }: { onUnlock: (passphrase: string) => Promise<string | null> }) => {
+    const { t } = useI18n();
+    const { palette } = useTheme();
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const submit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase || busy) return;
+        setBusy(true); setError(null);
+        const problem = await onUnlock(passphrase);
+        setBusy(false); setError(problem);
+    };
+    return (
+        <form onSubmit={submit} className="flex flex-col gap-3 items-center w-full">
+            <label htmlFor="card-passphrase" className="text-[10px] uppercase tracking-widest" style={{ color: palette.cream }}>{t('passphrase.label')}</label>
+            <input id="card-passphrase" type="password" autoComplete="off" value={passphrase} onChange={e => setPassphrase(e.target.value)} className="w-full max-w-xs px-3 py-2 bg-black text-white border-2 border-white font-mono text-sm outline-none focus:border-sunset" />
+            {error && <div className="text-[10px] text-sunset">{error}</div>}
+            <button type="submit" disabled={busy} className="px-6 py-2 text-base sm:text-lg uppercase font-bold tracking-widest hover:scale-105 active:scale-95 disabled:opacity-50" style={{ color: palette.sunsetOrange, textShadow: '2px 2px 0 #000' }}>{busy ? t('passphrase.checking') : t('passphrase.unlock')}</button>
+        </form>
+    );
+};
+
+// --- Helper: Story Error Screen ---
+const StoryErrorScreen = ({ title, hint, problems }: { title?: string, hint?: string, problems: string[] }) => {
+    const { t } = useI18n();
+    const { palette } = useTheme();
     return (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 p-6 animate-[fadeIn_0.5s]">
+        <div className="fixed inset-0 z-[100] flex flex-col items-center justify-center px-4" style={{ backgroundColor: palette.nightBlue }}>
+             <div className="text-5xl sm:text-6xl mb-6">💔</div>
+             <h2 className="text-[#D94C23] font-bold text-lg sm:text-xl mb-6 pixel-text-glow tracking-widest text-center leading-loose">{title ?? t('error.title')}</h2>
+             {hint && <p className="text-[10px] sm:text-xs text-[#B8C8D9] mb-6 text-center leading-loose max-w-lg">{hint}</p>}
+             <ul className="w-full max-w-lg max-h-[50vh] overflow-y-auto bg-black border-4 border-white p-4 text-[10px] sm:text-xs text-gray-300 font-mono leading-relaxed shadow-[4px_4px_0_rgba(0,0,0,0.5)]">
+                 {problems.map((p, i) => (<li key={i} className="break-words">▶ {p}</li>))}
+             </ul>
+        </div>
+    );
+};
+
+// Every reward announces itself here; the classic Konami message keeps its two lines
+const SECRET_REWARD_UI: Record<SecretReward['type'], { icon: string; line: MessageKey }> = {
+    message: { icon: '❤️', line: 'secret.line1' }, letter: { icon: '💌', line: 'secret.letter' }, palette: { icon: '🎨', line: 'secret.palette' },
+    music: { icon: '🎵', line: 'secret.music' }, assemble: { icon: '🎄', line: 'secret.assemble' },
+};
+// What plays in each phase a secret can be found in, for handing the music back afterwards
+const PHASE_BGM: Partial<Record<GameState, SongKey>> = { [GameState.COLLECTING]: 'GROUND', [GameState.READY_TO_ASSEMBLE]: 'GROUND', [GameState.COMPLETED]: 'CLEAR' };
+const SHAPE_ICONS: Record<ThemeShape, string> = { tree: '🎄', heart: '💖', cake: '🎂' };
+const SecretModal = ({ secret, found, total, onClose }: { secret: SecretSpec, found: number, total: number, onClose: () => void }) => {
+    const { t } = useI18n();
+    const { shape } = useTheme();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    useFocusTrap(dialogRef, onClose);
+    const classic = secret.reward.type === 'message' && secret.message === undefined;
+    return (
+        <div ref={dialogRef} role="alertdialog" aria-modal="true" aria-labelledby="secret-title" tabIndex={-1} className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 p-6 animate-[fadeIn_0.5s] outline-none">
             <div className="text-center animate-bounce">
-                <div className="text-6xl mb-4">❤️</div>
-                <h1 className="text-xl sm:text-3xl text-[#FFAD66] mb-4 font-bold pixel-text-glow">CHEAT CODE ACTIVATED</h1>
-                <p className="text-white text-sm sm:text-lg mb-8 leading-loose">Loophole detected.<br/><span className="text-[#D94C23]">Co-op proceeding — by choice.</span></p>
-                <button onClick={onClose} className="px-6 py-3 bg-white text-black font-bold uppercase hover:bg-[#FFAD66] transition-colors">OK</button>
+                <div className="text-6xl mb-4">{secret.reward.type === 'assemble' ? SHAPE_ICONS[shape] : SECRET_REWARD_UI[secret.reward.type].icon}</div>
+                <h1 id="secret-title" className="text-xl sm:text-3xl text-sunset mb-4 font-bold pixel-text-glow">{secret.title ?? t('secret.title')}</h1>
+                <p className="text-white text-sm sm:text-lg mb-4 leading-loose">{secret.message ?? t(SECRET_REWARD_UI[secret.reward.type].line, { shape: t(`shape.${shape}`) })}{classic && <><br/><span className="text-[#D94C23]">{t('secret.line2')}</span></>}</p>
+                <p className="min-h-[1em] text-[10px] text-gray-400 mb-8 tracking-widest">{total > 1 && t('secret.found', { found, total })}</p>
+                <button onClick={onClose} className="px-6 py-3 bg-white text-black font-bold uppercase hover:bg-sunset transition-colors">{t('secret.ok')}</button>
+            </div>
+        </div>
+    );
+};
+
+// --- Story Editor (?edit=1) ---
+const editorDraftKey = (storyId: string) => `pixel-quest:editor-draft:${storyId}`;
+const editorInput = "w-full px-2 py-1 bg-black text-white border-2 border-white font-mono text-xs outline-none focus:border-sunset";
+const editorLabel = "block text-[10px] uppercase tracking-widest text-[#B8C8D9] mb-1 mt-3";
+const editorBtn = "px-3 py-1 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-[10px] uppercase tracking-widest disabled:opacity-40";
+
+const loadEditorDraft = (storyId: string): StoryPack | null => {
+    try {
+        const draft = JSON.parse(window.localStorage.getItem(editorDraftKey(storyId)) || 'null');
+        return draft && Array.isArray(draft.envelopes) && draft.images ? draft : null;
+    } catch { return null; }
+};
+
+// Ids follow the list order: they are the reading order and the tree slot of each letter.
+// Unlock dates and prerequisites follow their letters to the new ids.
+const renumberEnvelopes = (story: StoryPack, envelopes: EnvelopeData[]): StoryPack => {
+    const ids = new Map(envelopes.map((e, i) => [e.id, i + 1]));
+    const renumbered = envelopes.map((e, i) => ({ ...e, id: i + 1 }));
+    const tree = story.tree && renumbered.map(e => story.tree!.find(t => t.id === e.id) ?? { id: e.id, x: 50, y: 70 });
+    return { ...story, envelopes: renumbered, tree, ...(story.unlock ? { unlock: remapUnlockRules(story.unlock, ids) } : {}) };
+};
+
+const StoryEditor = ({ initialStory }: { initialStory: StoryPack }) => {
+    const [draft, setDraft] = useState<StoryPack>(() => loadEditorDraft(initialStory.id) ?? initialStory);
+    const [selected, setSelected] = useState(0);
+    const [placingSlots, setPlacingSlots] = useState(false);
+    const [passphrase, setPassphrase] = useState('');
+    const [shareUrl, setShareUrl] = useState('');
+    const [status, setStatus] = useState<string | null>(null);
+    const [replies, setReplies] = useState<ReplyBundle | null>(null);
+    // The preview and tree slots follow the theme picked here
+    const theme = useMemo(() => resolveTheme(draft), [draft.theme]);
+    const { palette } = theme;
+
+    useEffect(() => {
+        try { window.localStorage.setItem(editorDraftKey(initialStory.id), JSON.stringify(draft)); } catch { /* drafts are a convenience */ }
+        setShareUrl('');
+    }, [draft, initialStory.id]);
+
+    const problems = useMemo(() => {
+        try { validateStoryPack(draft); return []; } catch (e) { return e instanceof StoryPackError ? e.problems : [String(e)]; }
+    }, [draft]);
+    const warnings = useMemo(() => (problems.length > 0 ? [] : getStoryWarnings(draft)), [draft, problems]);
+
+    const current = draft.envelopes[Math.min(selected, draft.envelopes.length - 1)];
+    const updateEnvelope = (patch: Partial<EnvelopeData>) => setDraft(prev => ({ ...prev, envelopes: prev.envelopes.map(e => e === current ? { ...e, ...patch } : e) }));
+    const updateImages = (patch: Partial<StoryPack['images']>) => setDraft(prev => ({ ...prev, images: { ...prev.images, ...patch } }));
+
+    const moveEnvelope = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= draft.envelopes.length) return;
+        const next = [...draft.envelopes];
+        [next[index], next[target]] = [next[target], next[index]];
+        setDraft(renumberEnvelopes(draft, next)); setSelected(target);
+    };
+    const addEnvelope = () => {
+        const blank: EnvelopeData = { id: 0, title: `Letter ${draft.envelopes.length + 1}`, message: '', imageUrl: draft.images.yearReview, scale: 1 };
+        setDraft(renumberEnvelopes(draft, [...draft.envelopes, blank])); setSelected(draft.envelopes.length);
+    };
+    const deleteEnvelope = (index: number) => {
+        if (draft.envelopes.length <= 1 || !window.confirm(`Delete letter #${index + 1} "${draft.envelopes[index].title}"?`)) return;
+        setDraft(renumberEnvelopes(draft, draft.envelopes.filter((_, i) => i !== index))); setSelected(Math.max(0, index - 1));
+    };
+    const discardDraft = () => {
+        if (!window.confirm('Discard all edits and start again from the loaded story?')) return;
+        setDraft(initialStory); setSelected(0);
+    };
+
+    const copyShareLink = async () => {
+        try {
+            const url = await createShareLink(draft, { passphrase: passphrase || undefined });
+            setShareUrl(url);
+            await navigator.clipboard?.writeText(url).catch(() => {});
+            setStatus(`Link copied (${url.length} characters)${passphrase ? ', protected with a passphrase' : ''}.`);
+        } catch (e) {
+            setStatus(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const openRepliesFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const bundle = readReplyBundle(JSON.parse(await file.text()));
+            if (!bundle) throw new Error(`${file.name} is not a replies file.`);
+            setReplies(bundle);
+        } catch (e) {
+            setStatus(e instanceof SyntaxError ? `${file.name} is not a replies file.` : e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    // The real card, skipped ahead to the assembly, with slots that can be dragged once it stands
+    if (placingSlots) return (
+      <ThemeContext.Provider value={theme}>
+        <Game story={draft} slotEditor={{ onChange: tree => setDraft(prev => ({ ...prev, tree, treeShape: tree && theme.shape !== 'tree' ? theme.shape : undefined })), onClose: () => setPlacingSlots(false) }} />
+      </ThemeContext.Provider>
+    );
+
+    return (
+      <ThemeContext.Provider value={theme}>
+        <div className="fixed inset-0 overflow-y-auto text-white p-4 sm:p-8" style={{ ...sunsetVar(palette), backgroundColor: palette.nightBlue, touchAction: 'auto' }}>
+            <style>{`@keyframes fadeIn { 0% { opacity: 0; } 100% { opacity: 1; } }`}</style>
+            <header className="flex flex-wrap gap-2 items-center border-b-4 border-white pb-3 mb-4">
+                <h1 className="text-sunset text-sm sm:text-base font-bold tracking-widest pixel-text-glow mr-auto">STORY EDITOR</h1>
+                <button className={editorBtn} disabled={problems.length > 0} onClick={() => setPlacingSlots(true)}>{SHAPE_ICONS[theme.shape]} Place slots</button>
+                <button className={editorBtn} onClick={discardDraft}>Discard draft</button>
+            </header>
+
+            <div className="grid gap-6 lg:grid-cols-[220px_1fr_minmax(0,32rem)]">
+                {/* Letter list */}
+                <section>
+                    <h2 className="text-[10px] text-[#B8C8D9] tracking-widest mb-2">LETTERS ({draft.envelopes.length})</h2>
+                    <ol className="flex flex-col gap-1">
+                        {draft.envelopes.map((env, i) => (
+                            <li key={i} className={`flex items-center gap-1 border-2 px-2 py-1 text-[10px] ${env === current ? 'border-sunset bg-black/40' : 'border-white/30'}`}>
+                                <button className="flex-1 text-left truncate" onClick={() => setSelected(i)}>#{String(env.id).padStart(2, '0')} {env.title}</button>
+                                <button aria-label="Move up" className="px-1 hover:text-sunset" onClick={() => moveEnvelope(i, -1)}>▲</button>
+                                <button aria-label="Move down" className="px-1 hover:text-sunset" onClick={() => moveEnvelope(i, 1)}>▼</button>
+                                <button aria-label="Delete" className="px-1 hover:text-[#D94C23]" onClick={() => deleteEnvelope(i)}>✕</button>
+                            </li>
+                        ))}
+                    </ol>
+                    <button className={`${editorBtn} mt-2 w-full`} onClick={addEnvelope}>+ Add letter</button>
+                </section>
+
+                {/* Fields */}
+                <section>
+                    {current && (
+                        <div>
+                            <h2 className="text-[10px] text-[#B8C8D9] tracking-widest">LETTER #{String(current.id).padStart(2, '0')}</h2>
+                            <label className={editorLabel}>Title</label>
+                            <input className={editorInput} value={current.title} onChange={e => updateEnvelope({ title: e.target.value })} />
+                            <label className={editorLabel}>Message</label>
+                            <textarea className={`${editorInput} h-40 leading-relaxed`} value={current.message} onChange={e => updateEnvelope({ message: e.target.value })} />
+                            {current.body && <p className="mt-1 text-[10px] text-sunset leading-relaxed">This letter shows its {current.body.length}-page body instead of the message. Edit the body in the story file.</p>}
+                            <label className={editorLabel}>Image URL</label>
+                            <input className={editorInput} value={current.imageUrl} onChange={e => updateEnvelope({ imageUrl: e.target.value })} />
+                            <label className={editorLabel}>Icon URL (optional)</label>
+                            <input className={editorInput} value={current.iconUrl ?? ''} onChange={e => updateEnvelope({ iconUrl: e.target.value || undefined })} />
+                            <label className={editorLabel}>Unlock date (optional)</label>
+                            <input type="date" className={editorInput} value={current.unlockDate ?? ''} onChange={e => updateEnvelope({ unlockDate: e.target.value || undefined })} />
+                            <label className={editorLabel}>Challenge</label>
+                            <select className={editorInput} value={current.challenge?.type ?? ''} onChange={e => updateEnvelope({ challenge: e.target.value === 'quiz' ? { type: 'quiz', question: '', answers: [] } : e.target.value ? { type: e.target.value } as ChallengeSpec : undefined })}>
+                                <option value="">None</option>
+                                {CHALLENGE_TYPES.map(type => <option key={type} value={type}>{translate('en', `challenge.${type}`)}</option>)}
+                            </select>
+                            {current.challenge?.type === 'quiz' && (() => {
+                                const quiz = current.challenge;
+                                const splitList = (text: string) => text.split(',').map(t => t.trim()).filter(Boolean);
+                                return (<React.Fragment key={current.id}>
+                                    <label className={editorLabel}>Question</label>
+                                    <input className={editorInput} value={quiz.question} onChange={e => updateEnvelope({ challenge: { ...quiz, question: e.target.value } })} />
+                                    <label className={editorLabel}>Accepted answers (comma separated)</label>
+                                    <input className={editorInput} defaultValue={quiz.answers.join(', ')} onBlur={e => updateEnvelope({ challenge: { ...quiz, answers: splitList(e.target.value) } })} />
+                                    <label className={editorLabel}>Choices (optional, comma separated)</label>
+                                    <input className={editorInput} defaultValue={(quiz.choices ?? []).join(', ')} onBlur={e => { const choices = splitList(e.target.value); updateEnvelope({ challenge: { ...quiz, choices: choices.length > 0 ? choices : undefined } }); }} />
+                                </React.Fragment>);
+                            })()}
+                            <label className={editorLabel}>Scale · {current.scale.toFixed(2)}</label>
+                            <input type="range" min={0.5} max={1.5} step={0.05} className="w-full" value={current.scale} onChange={e => updateEnvelope({ scale: Number(e.target.value) })} />
+                        </div>
+                    )}
+
+                    <h2 className="text-[10px] text-[#B8C8D9] tracking-widest mt-8 border-t-2 border-white/30 pt-4">STORY</h2>
+                    <label className={editorLabel}>Story id (saves are kept per id)</label>
+                    <input className={editorInput} value={draft.id} onChange={e => setDraft({ ...draft, id: e.target.value })} />
+                    <label className={editorLabel}>Title</label>
+                    <input className={editorInput} value={draft.title ?? ''} onChange={e => setDraft({ ...draft, title: e.target.value || undefined })} />
+                    <label className={editorLabel}>Theme{typeof draft.theme === 'object' && ' (with the story\'s own changes)'}</label>
+                    <select className={editorInput} value={theme.id} onChange={e => setDraft({ ...draft, theme: typeof draft.theme === 'object' ? { ...draft.theme, base: e.target.value } : e.target.value })}>
+                        {Object.keys(BUILT_IN_THEMES).map(id => <option key={id} value={id}>{id}</option>)}
+                    </select>
+                    {(['cover', 'game', 'yearReview'] as const).map(key => (
+                        <div key={key}>
+                            <label className={editorLabel}>{key} image</label>
+                            <input className={editorInput} value={draft.images[key]} onChange={e => updateImages({ [key]: e.target.value })} />
+                        </div>
+                    ))}
+
+                    <h2 className="text-[10px] text-[#B8C8D9] tracking-widest mt-8 border-t-2 border-white/30 pt-4">EXPORT</h2>
+                    {problems.length > 0 && (
+                        <ul className="mt-2 text-[10px] text-sunset leading-relaxed">{problems.map((p, i) => <li key={i}>▶ {p}</li>)}</ul>
+                    )}
+                    {warnings.length > 0 && (
+                        <ul className="mt-2 text-[10px] text-[#B8C8D9] leading-relaxed">{warnings.map((w, i) => <li key={i}>⚠ {w}</li>)}</ul>
+                    )}
+                    <div className="flex flex-wrap gap-2 mt-3">
+                        <button className={editorBtn} disabled={problems.length > 0} onClick={() => downloadText(`${draft.id}.json`, toStoryJson(draft))}>Story file</button>
+                        <button className={editorBtn} disabled={problems.length > 0} onClick={() => downloadText('constants-snippet.ts', toConstantsSnippet(draft), 'text/plain')}>constants.ts snippet</button>
+                    </div>
+                    <label className={editorLabel}>Link passphrase (optional)</label>
+                    <div className="flex gap-2">
+                        <input type="password" autoComplete="off" className={editorInput} value={passphrase} onChange={e => { setPassphrase(e.target.value); setShareUrl(''); }} />
+                        <button className={`${editorBtn} whitespace-nowrap`} disabled={problems.length > 0} onClick={copyShareLink}>Copy link</button>
+                    </div>
+                    {shareUrl && <a href={shareUrl} target="_blank" rel="noreferrer" className="block mt-2 text-[10px] text-sunset underline">▶ Open the card in a new tab</a>}
+                    {status && <p className="mt-2 text-[10px] text-[#B8C8D9] leading-relaxed">{status}</p>}
+
+                    <h2 className="text-[10px] text-[#B8C8D9] tracking-widest mt-8 border-t-2 border-white/30 pt-4">REPLIES</h2>
+                    <label className={editorLabel} htmlFor="replies-file">Replies file from the recipient</label>
+                    <input id="replies-file" type="file" accept="application/json,.json" className="text-[10px]" onChange={e => { openRepliesFile(e.target.files?.[0]); e.target.value = ''; }} />
+                </section>
+
+                {/* Live preview */}
+                <section className="lg:sticky lg:top-4 self-start">
+                    <h2 className="text-[10px] text-[#B8C8D9] tracking-widest mb-4">PREVIEW</h2>
+                    <Modal data={current ?? null} onClose={() => {}} playBlip={() => {}} inline />
+                </section>
             </div>
+
+            {replies && <RepliesModal story={draft} bundle={replies} onClose={() => setReplies(null)} playBlip={() => {}} />}
         </div>
+      </ThemeContext.Provider>
     );
 };
 
+// --- Helper: Scatter Layout ---
+const createScatterLayout = (envelopes: EnvelopeData[]): EnvelopeLayout => {
+    const layout: EnvelopeLayout = {};
+    envelopes.forEach(env => { layout[env.id] = { x: Math.random() * 80 + 10, y: Math.random() * 60 + 15, r: (Math.random() - 0.5) * 60, z: Math.floor(Math.random() * 10) }; });
+    return layout;
+};
+
 // --- Main App Component ---
 
+const IS_EDIT_MODE = new URLSearchParams(window.location.search).get('edit') === '1';
+
 export default function App() {
-  const [isLoading, setIsLoading] = useState(true);
-  const [loadProgress, setLoadProgress] = useState(0);
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+  const i18n = useMemo<I18n>(() => ({
+      locale,
+      setLocale: next => { saveLocale(next); setLocaleState(next); },
+      t: (key, params) => translate(locale, key, params),
+  }), [locale]);
+  useEffect(() => { document.documentElement.lang = LOCALE_TAGS[locale]; }, [locale]);
+
+  const [systemReduced, setSystemReduced] = useState(systemPrefersReducedMotion);
+  const [motionChoice, setMotionChoice] = useState(loadMotionChoice);
+  useEffect(() => watchSystemMotion(setSystemReduced), []);
+  const reducedMotion = motionChoice ?? systemReduced;
+  const motion = useMemo<Motion>(() => ({
+      reduced: reducedMotion,
+      setReduced: reduced => { saveMotionChoice(reduced); setMotionChoice(reduced); },
+  }), [reducedMotion]);
+  useEffect(() => { document.documentElement.classList.toggle('reduced-motion', reducedMotion); }, [reducedMotion]);
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <MotionContext.Provider value={motion}>
+        <StoryRoot />
+      </MotionContext.Provider>
+    </I18nContext.Provider>
+  );
+}
+
+// Loads the story from the share link or ?story=, then hands it to the editor or the game
+function StoryRoot() {
+  const { t } = useI18n();
+  const [story, setStory] = useState<StoryPack | null>(null);
+  const [loadError, setLoadError] = useState<{ title?: string, hint?: string, problems: string[] } | null>(null);
+  const [lockedLink, setLockedLink] = useState<ParsedShareLink | null>(null);
+  const [replies, setReplies] = useState<ReplyBundle | null>(null);
+  const theme = useMemo(() => (story ? resolveTheme(story) : DEFAULT_THEME), [story]);
+
+  const reportError = useCallback((err: unknown, fromLink: boolean) => {
+      console.error('[Story]', err);
+      const problems = err instanceof StoryPackError ? err.problems : err instanceof ShareLinkError ? [err.message] : [String(err)];
+      setLoadError(fromLink ? { title: t('error.linkTitle'), hint: t('error.linkHint'), problems } : { problems });
+  }, [t]);
+
+  // A card in the URL hash wins over ?story=
+  useEffect(() => {
+      let link: ParsedShareLink | null = null;
+      try { link = parseShareLink(window.location.hash); } catch (err) { reportError(err, true); return; }
+      if (link?.encrypted) { setLockedLink(link); return; }
+      (link ? decodeShareLink(link) : loadStoryPack())
+        .then(pack => { getStoryWarnings(pack).forEach(w => console.warn('[Story]', w)); setStory(pack); })
+        .catch(err => reportError(err, link !== null));
+  }, [reportError]);
+
+  // #replies= brings answers back to the sender, who reads them on their own copy of the card
+  useEffect(() => {
+      readRepliesLink(window.location.hash).then(setReplies).catch(err => reportError(err, true));
+  }, [reportError]);
+
+  const closeReplies = () => {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setReplies(null);
+  };
+
+  const handleUnlock = useCallback(async (passphrase: string): Promise<string | null> => {
+      if (!lockedLink) return null;
+      try {
+          setStory(await decodeShareLink(lockedLink, passphrase));
+          setLockedLink(null);
+          return null;
+      } catch (err) {
+          if (err instanceof WrongPassphraseError) return err.message;
+          reportError(err, true);
+          return null;
+      }
+  }, [lockedLink, reportError]);
+
+  if (loadError) return <StoryErrorScreen {...loadError} />;
+  if (lockedLink) {
+      return (
+        <div className="relative w-screen h-screen overflow-hidden text-white" style={{ ...sunsetVar(theme.palette), backgroundColor: theme.palette.nightBlue }}>
+            <CoverScreen onStart={() => {}} onUnlock={handleUnlock} playBlip={() => {}} playBtn={() => {}} onOpenCredits={() => {}} />
+        </div>
+      );
+  }
+  if (!story) return <LoadingScreen progress={0} />;
+  return (
+    <ThemeContext.Provider value={theme}>
+      {replies ? (
+        <div className="relative w-screen h-screen overflow-hidden text-white" style={{ ...sunsetVar(theme.palette), backgroundColor: theme.palette.nightBlue }}>
+            <RepliesModal story={story} bundle={replies} onClose={closeReplies} playBlip={() => {}} />
+        </div>
+      ) : IS_EDIT_MODE ? <StoryEditor initialStory={story} /> : <StoryAssets story={story} />}
+    </ThemeContext.Provider>
+  );
+}
+
+// Preloads the story's images before the game starts, then plays with whatever URLs actually loaded
+function StoryAssets({ story }: { story: StoryPack }) {
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<AssetReport | null>(null);
+  const [ready, setReady] = useState<StoryPack | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+      let cancelled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      setReport(null);
+      setProgress(0);
+      loadAssets(getStoryAssets(story), { onProgress: (done, total) => { if (!cancelled) setProgress(total ? (done / total) * 100 : 100); } }).then(result => {
+          if (cancelled) return;
+          result.failed.forEach(o => console.warn('[Loader] Image failed:', o.key, o.failures));
+          // Keep what did load for offline visits
+          const loaded = result.outcomes.flatMap(o => (o.url ? [o.url] : []));
+          precacheAssets(loaded).then(missed => { if (missed.length > 0) console.warn('[Offline] Not cached:', missed); });
+          setReport(result);
+          // Small delay for smooth transition; failures and fallbacks wait for the player
+          const fellBack = result.outcomes.some(usedFallback);
+          if (result.failed.length === 0 && !fellBack) timer = setTimeout(() => setReady(applyAssetReport(story, result)), 500);
+      });
+      return () => { cancelled = true; clearTimeout(timer); };
+  }, [story, attempt]);
+
+  if (ready) return <Game story={ready} />;
+  return (
+      <LoadingScreen
+          progress={progress}
+          report={report ?? undefined}
+          onRetry={() => setAttempt(a => a + 1)}
+          onContinue={() => report && setReady(applyAssetReport(story, report))}
+      />
+  );
+}
+
+// Runs the pure machine from gameMachine.ts. `send` reports synchronously whether an event was accepted,
+// so callers only fire sounds and animations for legal transitions.
+const useGameMachine = (envelopeIds: number[], setup: GameSetup): [GameModel, (event: GameEvent) => TransitionResult] => {
+  const [model, dispatch] = useReducer(gameReducer, envelopeIds, ids => createGameModel(ids, setup));
+  const modelRef = useRef(model);
+  modelRef.current = model;
+  const send = useCallback((event: GameEvent) => {
+      const result = transition(modelRef.current, event);
+      if (result.accepted) { modelRef.current = result.model; dispatch(event); }
+      else console.warn(`[Game] ${event.type} rejected: ${result.reason}`);
+      return result;
+  }, []);
+  return [model, send];
+};
+
+// Gamepads (polled) and mapped keys. Gamepad presses go to `onAction`; keys are left to the caller's own keydown handler.
+// `held` lights up the on-screen pad, `remap(action)` binds the next button or key pressed to that action.
+const useController = (onAction: (action: ControllerAction) => void) => {
+  const [mapping, setMapping] = useState(loadControllerMapping);
+  const [padHeld, setPadHeld] = useState<ControllerAction[]>([]);
+  const [keyHeld, setKeyHeld] = useState<ControllerAction[]>([]);
+  const [remapping, setRemapping] = useState<ControllerAction | null>(null);
+  const latest = useRef({ onAction, mapping, remapping });
+  latest.current = { onAction, mapping, remapping };
+  const pollerRef = useRef<GamepadPoller | null>(null);
+
+  const applyMapping = useCallback((next: ControllerMapping) => { saveControllerMapping(next); setMapping(next); setRemapping(null); }, []);
+  const bind = useCallback((input: { button: number } | { key: string }) => {
+      const action = latest.current.remapping;
+      if (action) applyMapping(rebind(latest.current.mapping, action, input));
+  }, [applyMapping]);
+
+  useEffect(() => {
+      const poller = createGamepadPoller({
+          mapping: () => latest.current.mapping,
+          onPress: action => { if (!latest.current.remapping) latest.current.onAction(action); },
+          onButton: button => bind({ button }),
+          onChange: setPadHeld,
+      });
+      pollerRef.current = poller;
+      return () => { poller.destroy(); pollerRef.current = null; };
+  }, [bind]);
+
+  useEffect(() => {
+      // Capture phase, so the key being bound doesn't also close the dialog. Escape cancels.
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (latest.current.remapping) {
+              e.preventDefault(); e.stopPropagation();
+              if (e.key === 'Escape') setRemapping(null); else bind({ key: e.key });
+              return;
+          }
+          const action = actionForKey(latest.current.mapping, e.key);
+          if (action) setKeyHeld(prev => (prev.includes(action) ? prev : [...prev, action]));
+      };
+      const onKeyUp = (e: KeyboardEvent) => { const action = actionForKey(latest.current.mapping, e.key); if (action) setKeyHeld(prev => prev.filter(a => a !== action)); };
+      const onBlur = () => setKeyHeld([]);
+      window.addEventListener('keydown', onKeyDown, true); window.addEventListener('keyup', onKeyUp); window.addEventListener('blur', onBlur);
+      return () => { window.removeEventListener('keydown', onKeyDown, true); window.removeEventListener('keyup', onKeyUp); window.removeEventListener('blur', onBlur); };
+  }, [bind]);
+
+  const readStick = useCallback(() => pollerRef.current?.stick() ?? { x: 0, y: 0 }, []);
+  const held = useMemo(() => Array.from(new Set([...padHeld, ...keyHeld])), [padHeld, keyHeld]);
+  return { mapping, held, readStick, remapping, remap: setRemapping, resetMapping: useCallback(() => applyMapping(DEFAULT_MAPPING), [applyMapping]) };
+};
+
+// The co-op partner, when the URL asks for a room (see coop.ts). `onMessage` gets what the partner reports;
+// `send` does nothing while alone. Player 1 is the host: their envelope layout wins.
+const useCoop = (story: StoryPack, onMessage: (message: CoopMessage) => void) => {
+  const [config] = useState(() => getCoopConfig());
+  const [peer, setPeer] = useState<string | null>(null);
+  const [slot, setSlot] = useState(0);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const sessionRef = useRef<CoopSession | null>(null);
+
+  useEffect(() => {
+    if (!config) return;
+    const session = createCoopSession(createTransport(config), { storyId: story.id, fingerprint: getStoryFingerprint(story) }, {
+      onPeer: (next, mine) => { setPeer(next); setSlot(mine); },
+      onMessage: message => onMessageRef.current(message),
+    });
+    sessionRef.current = session;
+    return () => { session.close(); sessionRef.current = null; setPeer(null); };
+  }, [config, story]);
 
-  const [readEnvelopes, setReadEnvelopes] = useState<Set<number>>(new Set());
-  const [activeEnvelope, setActiveEnvelope] = useState<EnvelopeData | null>(null);
-  const [gameState, setGameState] = useState<GameState>(GameState.COVER);
-  const [showSnow, setShowSnow] = useState(false);
+  const send = useCallback((message: CoopMessage) => sessionRef.current?.send(message), []);
+  return { enabled: config !== null, connected: peer !== null, isHost: slot === 0, player: slot + 1, color: config ? PLAYER_COLORS[slot] : undefined, peerColor: PLAYER_COLORS[1 - slot], send };
+};
+
+const COOP_SEND_EVERY = 50; // ms between drag and cursor updates to the partner
+
+// What a controller action types into secret codes
+const SECRET_KEYS: Record<ControllerAction, string> = { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight', confirm: 'a', back: 'b' };
+
+// Moves focus to the previous or next control inside `root`, wrapping around
+const stepFocus = (root: ParentNode, delta: number) => {
+  const items = Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(el => el.getClientRects().length > 0);
+  if (items.length === 0) return;
+  const index = items.indexOf(document.activeElement as HTMLElement);
+  items[index === -1 ? (delta > 0 ? 0 : items.length - 1) : (index + delta + items.length) % items.length].focus();
+};
+
+// Controller A: native controls are clicked, anything else (envelopes, the star) gets the Enter its onKeyDown already handles
+const pressEnter = (el: HTMLElement) => {
+  if (el.matches('button, a[href], input[type="checkbox"], input[type="radio"]')) el.click();
+  else el.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+};
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Edit mode (?edit=1): the assembled card's slots can be dragged, and every move goes back to the draft
+interface SlotEditorProps {
+  onChange: (tree: TreeCoordinate[] | undefined) => void; // undefined goes back to the generated layout
+  onClose: () => void;
+}
+
+function Game({ story, slotEditor }: { story: StoryPack, slotEditor?: SlotEditorProps }) {
+  const { t, locale, setLocale } = useI18n();
+  const { reduced: reducedMotion, setReduced: setReducedMotion } = useMotion();
+  const { envelopes } = story;
+  const theme = useTheme();
+  const themeText = getThemeText(theme, t);
+  const treeLayout = useMemo(() => resolveTreeLayout(story, theme.shape), [story, theme.shape]);
+
+  const unlockDates = useMemo(() => resolveUnlockDates(story.unlock ?? DEFAULT_UNLOCK_RULES, envelopes), [story, envelopes]);
+  const secrets = useMemo(() => story.secrets ?? DEFAULT_SECRETS, [story]);
+  const [foundEarlier] = useState(() => loadFoundSecrets(story.id));
+  const [model, send] = useGameMachine(useMemo(() => envelopes.map(e => e.id), [envelopes]), { rules: story.unlock, unlockDates, secretsFound: foundEarlier });
+  const gameState = model.phase;
+  const readEnvelopes = useMemo(() => new Set(model.read), [model.read]);
+  const activeEnvelope = model.activeId === null ? null : envelopes.find(e => e.id === model.activeId) ?? null;
+  // Memoized so the typewriter only restarts when the letter or the locale changes
+  const activeLetter = useMemo(() => activeEnvelope && localizeEnvelope(activeEnvelope, locale), [activeEnvelope, locale]);
+  const activeSecret = model.activeSecret === null ? null : secrets.find(s => s.id === model.activeSecret) ?? null;
+  const secretsFound = secrets.filter(s => model.secretsFound.includes(s.id)).length;
+  const [palette, setPalette] = useState<string | null>(null);
+  const [bonusLetter, setBonusLetter] = useState<EnvelopeData | null>(null);
+  const [showAmbience, setShowAmbience] = useState(false);
   const [bgOpacity, setBgOpacity] = useState(1);
   const [parallaxOffset, setParallaxOffset] = useState({ x: 0, y: 0 });
   const [draggingId, setDraggingId] = useState<number | null>(null);
-  const [secretUnlocked, setSecretUnlocked] = useState(false);
   const [showGamepad, setShowGamepad] = useState(false);
   const [errorEnvelopeId, setErrorEnvelopeId] = useState<number | null>(null); 
+  const [lockHint, setLockHint] = useState<{ id: number; message: string } | null>(null);
+  const lockHintTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [clock, setClock] = useState(clockNow);
   const [showCredits, setShowCredits] = useState(false);
-  const [snowyEnvelopes, setSnowyEnvelopes] = useState<Set<number>>(new Set());
-  const [envelopeLayout, setEnvelopeLayout] = useState<{ [key: number]: { x: number, y: number, r: number, z: number } }>({});
+  const [showBooklet, setShowBooklet] = useState(false);
+  const [envelopeLayout, setEnvelopeLayout] = useState<EnvelopeLayout>({});
+  const editingSlots = slotEditor !== undefined;
+  const [savedProgress, setSavedProgress] = useState<SavedProgress | null>(() => (editingSlots ? null : loadSavedProgress(story)));
+  const [slotDragId, setSlotDragId] = useState<number | null>(null);
+  const [replies, setReplies] = useState<Record<number, Reply>>(() => loadReplies(story));
+  const [showReplies, setShowReplies] = useState(false);
 
-  const konamiSequence = useRef<string[]>([]);
-  const particleRef = useRef<any>(null);
+  const particleRef = useRef<ParticleEngine | null>(null);
   
-  const { loadBGM, playBGM, playOneShot, stopAll, toggleMute, isMuted, resumeContext, playSynth } = useGameAudio();
+  const { playBGM, setBGMTempo, duckBGM, stopAll, toggleMute, isMuted, resumeContext, playSynth } = useGameAudio();
 
-  // --- PRELOADER ---
+  // Dated letters open while the card is on screen, so keep the clock (and the countdowns) moving
+  const hasPendingDates = Object.values(unlockDates).some(t => t > clock);
   useEffect(() => {
-      const initAssets = async () => {
-          const images = [COVER_BG_IMAGE, GAME_BG_IMAGE, YEAR_REVIEW_IMAGE, ...ENVELOPES.map(e => e.imageUrl)];
-          const audioKeys = Object.keys(BGM_URLS) as (keyof typeof BGM_URLS)[];
-          
-          let completed = 0;
-          const total = images.length + audioKeys.length;
-          
-          const tick = () => {
-              completed++;
-              setLoadProgress((completed / total) * 100);
-          };
-
-          const imgPromises = images.map(src => new Promise<void>(resolve => {
-              const img = new Image();
-              img.src = src;
-              img.onload = () => { tick(); resolve(); };
-              img.onerror = () => { console.warn('Img err', src); tick(); resolve(); };
-          }));
-
-          const audioPromises = audioKeys.map(key => 
-              loadBGM(key, BGM_URLS[key]).then(() => tick())
-          );
-
-          await Promise.all([...imgPromises, ...audioPromises]);
-          
-          // Small delay for smooth transition
-          setTimeout(() => setIsLoading(false), 500);
-      };
-      initAssets();
-
-      // Init logic
-      const layout: any = {};
-      const snowy = new Set<number>();
-      while(snowy.size < 3) snowy.add(Math.floor(Math.random() * ENVELOPES.length) + 1);
-      setSnowyEnvelopes(snowy);
-      ENVELOPES.forEach(env => {
-        layout[env.id] = { x: Math.random() * 80 + 10, y: Math.random() * 60 + 15, r: (Math.random() - 0.5) * 60, z: Math.floor(Math.random() * 10) };
-      });
-      setEnvelopeLayout(layout);
-  }, []);
+      if (gameState !== GameState.COLLECTING || !hasPendingDates) return;
+      const timer = setInterval(() => setClock(clockNow()), 1000);
+      setClock(clockNow());
+      return () => clearInterval(timer);
+  }, [gameState, hasPendingDates]);
 
-  const handleInput = useCallback((key: string) => {
-    playSynth('blip');
-    const konamiCode = ['ArrowUp', 'ArrowUp', 'ArrowDown', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'ArrowLeft', 'ArrowRight', 'b', 'a'];
-    const normalizedKey = key.length === 1 ? key.toLowerCase() : key;
-    konamiSequence.current = [...konamiSequence.current, normalizedKey];
-    const currentTail = konamiSequence.current.slice(-konamiCode.length);
-    if (JSON.stringify(currentTail) === JSON.stringify(konamiCode)) {
-        setSecretUnlocked(true); playSynth('fanfare'); playBGM('STAR', true); setShowSnow(true); setShowGamepad(false); konamiSequence.current = [];
+  useEffect(() => {
+      setEnvelopeLayout(createScatterLayout(envelopes));
+  }, [story]);
+
+  // --- SECRETS ---
+  const secretMatcher = useMemo(() => createSecretMatcher(secrets), [secrets]);
+  const matchSecret = useCallback((key: string) => {
+    const secret = secretMatcher.push(key);
+    if (!secret) return;
+    const { reward } = secret;
+    if (!send({ type: 'UNLOCK_SECRET', id: secret.id, skipToAssembly: reward.type === 'assemble' }).accepted) return;
+    playSynth('fanfare'); setShowGamepad(false);
+    if (reward.type === 'message') { playBGM('STAR', true); setShowAmbience(true); }
+    if (reward.type === 'palette') setPalette(reward.palette);
+    if (reward.type === 'music') playBGM(reward.song as SongKey, true);
+    if (reward.type === 'assemble') setShowAmbience(true);
+  }, [secretMatcher, playSynth, playBGM, send]);
+
+  const handleSecretClose = () => {
+    if (!activeSecret || !send({ type: 'DISMISS_SECRET' }).accepted) return;
+    const { reward } = activeSecret;
+    if (reward.type === 'letter') setBonusLetter({ id: 0, title: reward.title, message: reward.message, imageUrl: reward.imageUrl ?? placeholderImageUrl(0), scale: 1 });
+    // The classic surprise hands the music back (the cover has none)
+    if (reward.type === 'message') { const song = PHASE_BGM[gameState]; if (song) playBGM(song, true); else stopAll(); }
+  };
+
+  const closeBonusLetter = () => { playSynth('blip'); setBonusLetter(null); };
+
+  useEffect(() => { saveFoundSecrets(story.id, model.secretsFound); }, [story, model.secretsFound]);
+  useEffect(() => {
+    document.documentElement.style.filter = palette ? SECRET_PALETTES[palette] : '';
+    return () => { document.documentElement.style.filter = ''; };
+  }, [palette]);
+
+  const handleGamepadInput = useCallback((key: string) => { playSynth('blip'); matchSecret(key); }, [playSynth, matchSecret]);
+
+  // --- CONTROLLERS ---
+  // Directions move a cursor (the focus) between envelopes, or between controls on other screens and in dialogs.
+  // A presses whatever has the cursor, B closes the top dialog. While the on-screen pad is open they only enter the code.
+  const handleControllerAction = (action: ControllerAction) => {
+    if (showGamepad) { playSynth('blip'); return; }
+    const top = dialogStack[dialogStack.length - 1];
+    const focused = document.activeElement instanceof HTMLElement && document.activeElement !== document.body ? document.activeElement : null;
+    if (action === 'back') {
+      (focused ?? document.body).dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+      return;
+    }
+    if (action === 'confirm') {
+      // A turns the letter's page or closes it, unless the cursor is on one of its controls (carousel, reply composer)
+      if (top?.contains(document.getElementById('letter-title')) && (!focused || focused === top || !top.contains(focused))) { top.querySelector<HTMLElement>('[data-letter-next]')?.click(); return; }
+      if (top && (!focused || focused === top)) { stepFocus(top, 1); return; }
+      if (focused) { pressEnter(focused); return; }
+      if (gameState === GameState.COLLECTING) document.getElementById(`envelope-${envelopes[0].id}`)?.focus();
+      return;
     }
-  }, [playSynth, playBGM]);
+    if (top) { stepFocus(top, action === 'up' || action === 'left' ? -1 : 1); return; }
+    if (gameState === GameState.PLACING_STAR) return; // The stick flies the star instead
+    if (gameState === GameState.COLLECTING) {
+      const cursors = envelopes.flatMap(env => {
+        const el = document.getElementById(`envelope-${env.id}`);
+        if (!el) return [];
+        const rect = el.getBoundingClientRect();
+        return [{ el, x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }];
+      });
+      const from = cursors.find(c => c.el === focused);
+      const next = from ? nextInDirection(from, cursors.filter(c => c !== from), action) : cursors[0];
+      if (next) { playSynth('blip'); next.el.focus(); }
+      return;
+    }
+    stepFocus(document, action === 'up' || action === 'left' ? -1 : 1);
+  };
 
+  const controller = useController(action => {
+    document.documentElement.classList.add('gamepad-active');
+    matchSecret(SECRET_KEYS[action]);
+    handleControllerAction(action);
+  });
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => handleInput(e.key);
+    const onPointer = () => document.documentElement.classList.remove('gamepad-active');
+    window.addEventListener('pointerdown', onPointer);
+    return () => window.removeEventListener('pointerdown', onPointer);
+  }, []);
+
+  // Secret codes listen to every key outside text fields, including those that moved the cursor.
+  // Mapped keys nobody else handled act like the controller.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.isTrusted || e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTextField(e.target)) return;
+      matchSecret(e.key);
+      const action = actionForKey(controller.mapping, e.key);
+      if (!action || e.defaultPrevented) return;
+      // Native controls already answer their own Enter, Space and Escape
+      if (e.target instanceof HTMLElement && e.target.matches('button, a[href], input, select') && (action === 'confirm' || action === 'back')) return;
+      e.preventDefault();
+      handleControllerAction(action);
+    };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleInput]);
+  });
+
+  // Arrows, Home and End move focus between envelopes in list order
+  const handleEnvelopeKeys = (e: React.KeyboardEvent) => {
+    if (gameState !== GameState.COLLECTING) return;
+    const index = envelopes.findIndex(env => document.getElementById(`envelope-${env.id}`) === document.activeElement);
+    if (index === -1) return;
+    const steps: Record<string, number> = { ArrowRight: index + 1, ArrowDown: index + 1, ArrowLeft: index - 1, ArrowUp: index - 1, Home: 0, End: envelopes.length - 1 };
+    if (!(e.key in steps)) return;
+    e.preventDefault();
+    const next = envelopes[(steps[e.key] + envelopes.length) % envelopes.length];
+    document.getElementById(`envelope-${next.id}`)?.focus();
+  };
+
+  // --- CO-OP ---
+  // Both players run their own machine. Letters read on either side are merged in with SYNC_READ, the
+  // assembly starts once both confirmed it, and whoever places the star places it for both.
+  const [openedHere, setOpenedHere] = useState<number[]>([]);
+  const [peerRead, setPeerRead] = useState<number[]>([]);
+  const [ready, setReady] = useState(false);
+  const [peerReady, setPeerReady] = useState(false);
+  const [peerPlacedStar, setPeerPlacedStar] = useState(false);
+  const lastCoopSend = useRef(0);
+  const lastDraggedId = useRef<number | null>(null);
+  const layoutRef = useRef(envelopeLayout);
+  layoutRef.current = envelopeLayout;
+
+  const coop = useCoop(story, message => {
+    switch (message.type) {
+      case 'read': setPeerRead(message.ids); break;
+      case 'layout': setEnvelopeLayout(message.layout); break;
+      case 'drag': setEnvelopeLayout(prev => (prev[message.id] ? { ...prev, [message.id]: { ...prev[message.id], x: message.x, y: message.y } } : prev)); break;
+      case 'cursor': particleRef.current?.spawn('sparkle', message.x / 100 * window.innerWidth, message.y / 100 * window.innerHeight, undefined, coop.peerColor); break;
+      case 'ready': setPeerReady(message.ready); break;
+      case 'star': setPeerPlacedStar(true); break;
+    }
+  });
+
+  useEffect(() => { if (coop.connected) coop.send({ type: 'read', ids: openedHere }); }, [coop.connected, openedHere]);
+  useEffect(() => { if (coop.connected) coop.send({ type: 'ready', ready }); }, [coop.connected, ready]);
+  // The host deals the envelopes: on connecting, and again when a new game leaves the cover
+  const onCover = gameState === GameState.COVER;
+  useEffect(() => { if (coop.connected && coop.isHost) coop.send({ type: 'layout', layout: layoutRef.current }); }, [coop.connected, coop.isHost, onCover]);
+
+  useEffect(() => {
+    if (gameState !== GameState.COLLECTING || peerRead.every(id => readEnvelopes.has(id))) return;
+    if (send({ type: 'SYNC_READ', ids: peerRead }).model.phase === GameState.READY_TO_ASSEMBLE) setShowAmbience(true);
+  }, [gameState, peerRead, readEnvelopes, send]);
+
+  // A partner who leaves mid-wait doesn't hold the assembly up
+  useEffect(() => {
+    if (gameState === GameState.READY_TO_ASSEMBLE && ready && (peerReady || !coop.connected)) startAssembly();
+  }, [gameState, ready, peerReady, coop.connected]);
+
+  useEffect(() => {
+    if (gameState === GameState.PLACING_STAR && peerPlacedStar) handleStarPlaced(true);
+  }, [gameState, peerPlacedStar]);
+
+  // Drags are sent throttled, so the envelope's final spot goes out once more on release
+  useEffect(() => {
+    if (draggingId !== null) { lastDraggedId.current = draggingId; return; }
+    const id = lastDraggedId.current;
+    lastDraggedId.current = null;
+    const spot = id === null ? undefined : layoutRef.current[id];
+    if (spot) coop.send({ type: 'drag', id, x: spot.x, y: spot.y });
+  }, [draggingId]);
+
+  const handleAssembleClick = () => {
+    if (!coop.connected) { startAssembly(); return; }
+    playSynth('blip'); setReady(true);
+  };
+
+  // The ground theme speeds up a little as the last letters are found
+  useEffect(() => {
+    setBGMTempo(gameState === GameState.COLLECTING ? 1 + 0.2 * readEnvelopes.size / envelopes.length : 1);
+  }, [gameState, readEnvelopes, envelopes, setBGMTempo]);
 
   useEffect(() => {
     if (gameState === GameState.COMPLETED) {
@@ -623,12 +1910,16 @@ export default function App() {
   }, [gameState]);
 
   const handleGlobalMove = useCallback((clientX: number, clientY: number) => {
-      const x = (clientX / window.innerWidth - 0.5) * 20; const y = (clientY / window.innerHeight - 0.5) * 20; setParallaxOffset({ x, y });
+      if (!reducedMotion) { const x = (clientX / window.innerWidth - 0.5) * 20; const y = (clientY / window.innerHeight - 0.5) * 20; setParallaxOffset({ x, y }); }
+      const x = Math.max(0, Math.min(100, (clientX / window.innerWidth) * 100)); const y = Math.max(0, Math.min(100, (clientY / window.innerHeight) * 100));
       if (draggingId !== null) {
-          const newX = (clientX / window.innerWidth) * 100; const newY = (clientY / window.innerHeight) * 100;
-          setEnvelopeLayout(prev => ({ ...prev, [draggingId]: { ...prev[draggingId], x: Math.max(0, Math.min(100, newX)), y: Math.max(0, Math.min(100, newY)) } }));
+          setEnvelopeLayout(prev => ({ ...prev, [draggingId]: { ...prev[draggingId], x, y } }));
       }
-  }, [draggingId]);
+      const time = Date.now();
+      if (time - lastCoopSend.current < COOP_SEND_EVERY) return;
+      lastCoopSend.current = time;
+      coop.send(draggingId !== null ? { type: 'drag', id: draggingId, x, y } : { type: 'cursor', x, y });
+  }, [draggingId, reducedMotion, coop.send]);
 
   useEffect(() => {
     const onMouseMove = (e: MouseEvent) => handleGlobalMove(e.clientX, e.clientY);
@@ -643,20 +1934,98 @@ export default function App() {
     return () => { window.removeEventListener('mousemove', onMouseMove); window.removeEventListener('mouseup', onMouseUp); window.removeEventListener('touchmove', onTouchMove); window.removeEventListener('touchend', onTouchEnd); window.removeEventListener('click', onInteract); window.removeEventListener('touchstart', onInteract);};
   }, [handleGlobalMove, draggingId, resumeContext, playSynth]);
 
+  // --- SAVE / RESUME ---
+  useEffect(() => {
+    if (draggingId !== null || editingSlots) return;
+    if (gameState === GameState.COVER) return;
+    saveProgress(story, { gameState, readEnvelopes: Array.from(readEnvelopes), challenges: model.challenges, challengeResults: model.challengeResults, envelopeLayout });
+  }, [story, gameState, readEnvelopes, model.challenges, model.challengeResults, envelopeLayout, draggingId, editingSlots]);
+
+  // --- SLOT EDITING ---
+  // Every letter counts as read, so the author goes straight to the assembly
+  useEffect(() => {
+    if (editingSlots && send({ type: 'RESUME', read: envelopes.map(e => e.id) }).accepted) setShowAmbience(true);
+  }, []);
+
+  // Envelopes follow their slots as they are dragged, or all at once when the layout is reset
+  useEffect(() => {
+    if (!editingSlots || gameState !== GameState.COMPLETED) return;
+    treeLayout.slots.forEach(slot => gsap.set(`#envelope-${slot.id}`, { left: `${slot.x}%`, top: `${slot.y}%`, scale: treeLayout.envelopeScale }));
+  }, [editingSlots, gameState, treeLayout]);
+
+  useEffect(() => {
+    if (slotDragId === null || !slotEditor) return;
+    const onMove = (e: PointerEvent) => {
+      const x = Math.round(Math.max(0, Math.min(100, e.clientX / window.innerWidth * 100)) * 10) / 10;
+      const y = Math.round(Math.max(0, Math.min(100, e.clientY / window.innerHeight * 100)) * 10) / 10;
+      slotEditor.onChange(treeLayout.slots.map(s => (s.id === slotDragId ? { id: s.id, x, y } : { id: s.id, x: s.x, y: s.y })));
+    };
+    const onUp = () => setSlotDragId(null);
+    window.addEventListener('pointermove', onMove); window.addEventListener('pointerup', onUp);
+    return () => { window.removeEventListener('pointermove', onMove); window.removeEventListener('pointerup', onUp); };
+  }, [slotDragId, slotEditor, treeLayout]);
+
+  // --- REPLIES ---
+  // Kept through RESET: they are the recipient's words, not game progress
+  useEffect(() => { saveReplies(story, replies); }, [story, replies]);
+  const replyBundle = useMemo(() => createReplyBundle(story, replies), [story, replies]);
+
+  const handleReply = (text: string, sticker?: number) => {
+      const id = model.activeId;
+      if (id === null) return;
+      playSynth(text || sticker !== undefined ? 'coin' : 'blip');
+      setReplies(prev => {
+          const { [id]: _, ...rest } = prev;
+          return text || sticker !== undefined ? { ...rest, [id]: { id, text, sticker, writtenAt: Date.now() } } : rest;
+      });
+  };
+
+  // --- CHALLENGES ---
+  const getChallenge = (env: EnvelopeData): ChallengeSpec | null => env.challenge ?? (model.challenges[env.id] ? { type: model.challenges[env.id] } as ChallengeSpec : null);
+  const activeChallenge = model.activeChallengeId === null ? null : envelopes.find(e => e.id === model.activeChallengeId) ?? null;
+
+  const handleSnowCleared = useCallback((id: number) => {
+      if (!send({ type: 'CHALLENGE_RESULT', id, passed: true }).accepted) return;
+      const el = document.getElementById(`envelope-${id}`);
+      if (el && particleRef.current) { const rect = el.getBoundingClientRect(); particleRef.current.spawn('snow', rect.left + rect.width/2, rect.top); }
+  }, [send]);
+
+  const handleChallengeResult = (passed: boolean) => {
+      const id = model.activeChallengeId;
+      if (id === null || !send({ type: 'CHALLENGE_RESULT', id, passed }).accepted || !passed) return;
+      playSynth('powerup');
+      openEnvelope(id);
+  };
+
   const handleStartGame = () => {
+    const challenges: Record<number, ChallengeType> = {};
+    Object.entries(assignChallenges(envelopes)).forEach(([id, spec]) => { challenges[Number(id)] = spec.type; });
+    if (!send({ type: 'START', challenges }).accepted) return;
     resumeContext(); // Double check context is running
-    setGameState(GameState.COLLECTING);
+    if (savedProgress) { clearProgress(story.id); setSavedProgress(null); }
+    setOpenedHere([]);
+    playBGM('GROUND', true);
+  };
+
+  const handleContinueGame = () => {
+    if (!savedProgress) return;
+    const result = send({ type: 'RESUME', read: savedProgress.readEnvelopes, challenges: savedProgress.challenges, challengeResults: savedProgress.challengeResults });
+    if (!result.accepted) return;
+    resumeContext();
+    setEnvelopeLayout(savedProgress.envelopeLayout);
+    setOpenedHere(savedProgress.readEnvelopes);
+    if (result.model.phase === GameState.READY_TO_ASSEMBLE) setShowAmbience(true);
+    setSavedProgress(null);
     playBGM('GROUND', true);
   };
 
   const handleResetGame = () => {
-      playSynth('blip'); setGameState(GameState.COVER); setReadEnvelopes(new Set()); setShowSnow(false); setBgOpacity(1); setSecretUnlocked(false);
-      const layout: any = {}; const snowy = new Set<number>();
-      while(snowy.size < 3) snowy.add(Math.floor(Math.random() * ENVELOPES.length) + 1);
-      setSnowyEnvelopes(snowy);
-      ENVELOPES.forEach(env => { layout[env.id] = { x: Math.random() * 80 + 10, y: Math.random() * 60 + 15, r: (Math.random() - 0.5) * 60, z: Math.floor(Math.random() * 10) }; });
-      setEnvelopeLayout(layout);
+      if (!send({ type: 'RESET' }).accepted) return;
+      playSynth('blip'); setShowAmbience(false); setBgOpacity(1);
+      setEnvelopeLayout(createScatterLayout(envelopes));
       gsap.set('.tree-decorations', { opacity: 0, scale: 0 }); gsap.set('#start-btn-container', { clearProps: 'all' });
+      clearProgress(story.id); setSavedProgress(null); setPalette(null);
+      setOpenedHere([]); setReady(false); setPeerPlacedStar(false);
       stopAll(); 
   };
 
@@ -665,96 +2034,133 @@ export default function App() {
          let maxZ = 0; Object.values(prev).forEach(p => maxZ = Math.max(maxZ, p.z));
          return { ...prev, [id]: { ...prev[id], z: maxZ + 1 } };
       });
-      if (isDragStart) { setDraggingId(id); } else {
-          const expectedId = readEnvelopes.size + 1;
-          if (id !== expectedId && !readEnvelopes.has(id)) {
-              playOneShot('ERROR'); // Use playOneShot instead of playBGM
-              setErrorEnvelopeId(id); setTimeout(() => setErrorEnvelopeId(null), 500); return;
-          }
-          const env = ENVELOPES.find(e => e.id === id);
-          if (env) {
-            playSynth('coin');
-            const el = document.getElementById(`envelope-${id}`);
-            if(el && particleRef.current) { const rect = el.getBoundingClientRect(); particleRef.current.spawn(rect.left + rect.width/2, rect.top + rect.height/2, 12); }
-            setActiveEnvelope(env);
-          }
+      if (isDragStart) { setDraggingId(id); return; }
+      if (isChallengePending(model, id) && !INLINE_CHALLENGES.includes(model.challenges[id])) {
+          const result = send({ type: 'START_CHALLENGE', id, now: clockNow() });
+          if (!result.accepted) { showLockHint(id); return; }
+          setLockHint(null); playSynth('jump');
+          return;
       }
+      openEnvelope(id);
+  };
+
+  const openEnvelope = (id: number) => {
+      const result = send({ type: 'OPEN_ENVELOPE', id, now: clockNow() });
+      if (!result.accepted) { showLockHint(id); return; }
+      setLockHint(null);
+      playSynth('coin');
+      const el = document.getElementById(`envelope-${id}`);
+      if(el && particleRef.current) { const rect = el.getBoundingClientRect(); particleRef.current.spawn('confetti', rect.left + rect.width/2, rect.top + rect.height/2); }
+  };
+
+  const formatLock = (lock: LockReason | null): string | null => lock && t(`lock.${lock.code}`, {
+      id: lock.params?.id ?? '',
+      ids: (lock.params?.ids ?? []).map(i => `#${i}`).join(t('list.and')),
+      date: lock.params?.date !== undefined ? formatShortDate(new Date(lock.params.date), LOCALE_TAGS[locale]) : '',
+  });
+
+  // The machine's rejection reasons are English log text; the hint is rebuilt from the model in the current locale
+  const showLockHint = (id: number) => {
+      playSynth('buzz');
+      setErrorEnvelopeId(id); setTimeout(() => setErrorEnvelopeId(null), 500);
+      if (lockHintTimer.current) clearTimeout(lockHintTimer.current);
+      const message = formatLock(getLockReason(model, id, clockNow())) ?? t(isChallengePending(model, id) ? 'lock.challenge' : 'lock.unknown');
+      setLockHint({ id, message });
+      lockHintTimer.current = setTimeout(() => setLockHint(null), 1800);
   };
 
   const handleModalClose = () => {
     playSynth('blip');
-    if (activeEnvelope) {
-        if(particleRef.current) { particleRef.current.spawn(window.innerWidth/2, window.innerHeight/2, 8); }
-        if (gameState === GameState.COLLECTING) {
-            const newSet = new Set(readEnvelopes); newSet.add(activeEnvelope.id); setReadEnvelopes(newSet);
-            if (newSet.size === ENVELOPES.length) { setGameState(GameState.READY_TO_ASSEMBLE); setShowSnow(true); }
-        }
-        setActiveEnvelope(null);
-    }
+    const id = model.activeId;
+    const result = send({ type: 'CLOSE_ENVELOPE' });
+    if (!result.accepted) return;
+    setOpenedHere(prev => (prev.includes(id) ? prev : [...prev, id]));
+    if(particleRef.current) { particleRef.current.spawn('confetti', window.innerWidth/2, window.innerHeight/2, 8); }
+    if (result.model.phase === GameState.READY_TO_ASSEMBLE) setShowAmbience(true);
   };
 
   const startAssembly = () => {
-    playSynth('blip'); setGameState(GameState.ASSEMBLING); playSynth('powerup'); playBGM('CASTLE', false);
+    if (!send({ type: 'START_ASSEMBLY' }).accepted) return;
+    playSynth('blip'); playSynth('powerup'); playBGM('CASTLE', false);
     setTimeout(() => {
-        const tl = gsap.timeline({ onComplete: () => { setGameState(GameState.PLACING_STAR); } });
+        const tl = gsap.timeline({ onComplete: () => { send({ type: 'ASSEMBLY_COMPLETE' }); } });
         tl.to('#start-btn-container', { scale: 0, opacity: 0, duration: 0.3, ease: 'back.in' }, 0);
+        if (reducedMotion) {
+            // No spin, shake or bounce: the envelopes fade out and reappear on their slots
+            tl.to({}, { duration: 0.4, onUpdate: function() { setBgOpacity(1 - this.progress()); } }, 0);
+            tl.to('.year-review-overlay', { opacity: 0, duration: 0.3 }, 0);
+            envelopes.forEach((env) => { tl.to(`#envelope-${env.id}`, { opacity: 0, duration: 0.3 }, 0); });
+            envelopes.forEach((env) => { const target = treeLayout.slots.find(t => t.id === env.id); if (target) { tl.set(`#envelope-${env.id}`, { position: 'fixed', left: `${target.x}%`, top: `${target.y}%`, xPercent: -50, yPercent: -50, x: 0, y: 0, rotation: 0, scale: treeLayout.envelopeScale, filter: 'brightness(1.2) drop-shadow(0 0 8px #FFD700)' }, 0.3); tl.to(`#envelope-${env.id}`, { opacity: 1, duration: 0.4 }, 0.3); } });
+            tl.to('.tree-decorations', { opacity: 1, scale: 1, duration: 0.4 }, 0.3);
+            return;
+        }
         tl.to({}, { duration: 1.0, onUpdate: function() { setBgOpacity(1 - this.progress()); } }, 0);
         tl.to('.year-review-overlay', { opacity: 0, duration: 0.5 }, 0);
-        ENVELOPES.forEach((env) => { tl.to(`#envelope-${env.id}`, { rotation: 360, scale: 0.5, x: 0, y: 0, duration: 0.8, ease: "power2.in" }, 0); });
-        ENVELOPES.forEach((env) => { tl.to(`#envelope-${env.id}`, { x: () => (Math.random() - 0.5) * 40, y: () => (Math.random() - 0.5) * 40, rotation: () => (Math.random() - 0.5) * 30, filter: 'brightness(2) sepia(1)', duration: 0.1, repeat: 5, yoyo: true, ease: "none" }, 0.8); });
-        ENVELOPES.forEach((env) => { const target = TREE_COORDINATES.find(t => t.id === env.id); if (target) { tl.to(`#envelope-${env.id}`, { position: 'fixed', left: `${target.x}%`, top: `${target.y}%`, xPercent: -50, yPercent: -50, rotation: 0, scale: 0.8, filter: 'brightness(1.2) drop-shadow(0 0 8px #FFD700)', duration: 1.2, ease: 'elastic.out(1, 0.4)', delay: 1.4 + (Math.random() * 0.1) }, 1.4); } });
+        envelopes.forEach((env) => { tl.to(`#envelope-${env.id}`, { rotation: 360, scale: 0.5, x: 0, y: 0, duration: 0.8, ease: "power2.in" }, 0); });
+        envelopes.forEach((env) => { tl.to(`#envelope-${env.id}`, { x: () => (Math.random() - 0.5) * 40, y: () => (Math.random() - 0.5) * 40, rotation: () => (Math.random() - 0.5) * 30, filter: 'brightness(2) sepia(1)', duration: 0.1, repeat: 5, yoyo: true, ease: "none" }, 0.8); });
+        envelopes.forEach((env) => { const target = treeLayout.slots.find(t => t.id === env.id); if (target) { tl.to(`#envelope-${env.id}`, { position: 'fixed', left: `${target.x}%`, top: `${target.y}%`, xPercent: -50, yPercent: -50, rotation: 0, scale: treeLayout.envelopeScale, filter: 'brightness(1.2) drop-shadow(0 0 8px #FFD700)', duration: 1.2, ease: 'elastic.out(1, 0.4)', delay: 1.4 + (Math.random() * 0.1) }, 1.4); } });
         tl.to('.tree-decorations', { opacity: 1, scale: 1, duration: 0.8, ease: 'back.out(1.7)' }, 2.6);
-        tl.to('.envelope-container', { filter: 'drop-shadow(0 0 25px #FFAD66)', duration: 0.5, yoyo: true, repeat: 3 }, 2.4);
+        tl.to('.envelope-container', { filter: `drop-shadow(0 0 25px ${theme.palette.sunsetOrange})`, duration: 0.5, yoyo: true, repeat: 3 }, 2.4);
     }, 50);
   };
 
-  const handleStarPlaced = () => {
-      setGameState(GameState.COMPLETED); playSynth('fanfare'); playBGM('CLEAR', true);
-      if (particleRef.current) { particleRef.current.spawn(window.innerWidth * 0.5, window.innerHeight * 0.25, 30); }
+  const handleStarPlaced = (fromPartner = false) => {
+      if (!send({ type: 'PLACE_STAR' }).accepted) return;
+      if (!fromPartner) coop.send({ type: 'star' });
+      playSynth('fanfare'); playBGM('CLEAR', true);
+      if (particleRef.current) { particleRef.current.spawn('firework', window.innerWidth * treeLayout.tip.x / 100, window.innerHeight * treeLayout.tip.y / 100); }
       gsap.to('.tree-star-static', { opacity: 1, scale: 1.5, duration: 0.5, ease: 'back.out' });
   };
 
-  if (isLoading) {
-      return <LoadingScreen progress={loadProgress} />;
-  }
+  // Read out by screen readers whenever it changes
+  const announcement = {
+      [GameState.COLLECTING]: t('a11y.progress', { read: readEnvelopes.size, total: envelopes.length }),
+      [GameState.READY_TO_ASSEMBLE]: t('a11y.ready', { shape: t(`shape.${theme.shape}`) }),
+      [GameState.PLACING_STAR]: t('a11y.star', { topper: theme.topper }),
+      [GameState.COMPLETED]: themeText.banner.join(' '),
+  }[gameState] ?? '';
 
   return (
-    <div className="relative w-screen h-screen overflow-hidden text-white selection:bg-[#8BB6BF] selection:text-[#2F4858]" style={{ backgroundColor: COLORS.nightBlue }}>
-      <ParticleSystem ref={particleRef} />
-      <CursorTrail />
-      <style>{`@keyframes energeticShake { 0%, 100% { transform: scale(1) rotate(0deg); } 20% { transform: scale(1.1) rotate(-3deg); } 40% { transform: scale(1.1) rotate(3deg); } 60% { transform: scale(1.1) rotate(-3deg); } 80% { transform: scale(1.1) rotate(3deg); } } .animate-shake-pulse { animation: energeticShake 0.6s ease-in-out infinite alternate; } @keyframes elasticPop { 0% { transform: scale(0); opacity: 0; } 60% { transform: scale(1.2); opacity: 1; } 100% { transform: scale(1); opacity: 1; } } @keyframes glowFlash { 0%, 100% { box-shadow: 0 0 0 6px ${COLORS.cream}, 0 0 0 12px ${COLORS.deepPineGreen}, 0 20px 50px rgba(0,0,0,0.6); opacity: 0.9; } 50% { box-shadow: 0 0 20px 6px ${COLORS.cream}, 0 0 0 12px ${COLORS.deepPineGreen}, 0 20px 50px rgba(0,0,0,0.6); opacity: 0.7; } } @keyframes breathe { 0%, 100% { background-color: ${COLORS.deepPineGreen}66; } 50% { background-color: ${COLORS.deepPineGreen}AA; } } @keyframes flash { 0% { opacity: 0; transform: scale(0.9); } 20% { opacity: 1; transform: scale(1.05); } 100% { opacity: 1; transform: scale(1); } }`}</style>
+    <div className="relative w-screen h-screen overflow-hidden text-white selection:bg-[#8BB6BF] selection:text-[#2F4858]" style={{ ...sunsetVar(theme.palette), backgroundColor: theme.palette.nightBlue }}>
+      {!reducedMotion && <ParticleCanvas ref={particleRef} trail trailColor={coop.color} />}
+      <style>{`@keyframes energeticShake { 0%, 100% { transform: scale(1) rotate(0deg); } 20% { transform: scale(1.1) rotate(-3deg); } 40% { transform: scale(1.1) rotate(3deg); } 60% { transform: scale(1.1) rotate(-3deg); } 80% { transform: scale(1.1) rotate(3deg); } } .animate-shake-pulse { animation: energeticShake 0.6s ease-in-out infinite alternate; } @keyframes elasticPop { 0% { transform: scale(0); opacity: 0; } 60% { transform: scale(1.2); opacity: 1; } 100% { transform: scale(1); opacity: 1; } } @keyframes glowFlash { 0%, 100% { box-shadow: 0 0 0 6px ${theme.palette.cream}, 0 0 0 12px ${theme.palette.deepPineGreen}, 0 20px 50px rgba(0,0,0,0.6); opacity: 0.9; } 50% { box-shadow: 0 0 20px 6px ${theme.palette.cream}, 0 0 0 12px ${theme.palette.deepPineGreen}, 0 20px 50px rgba(0,0,0,0.6); opacity: 0.7; } } @keyframes breathe { 0%, 100% { background-color: ${theme.palette.deepPineGreen}66; } 50% { background-color: ${theme.palette.deepPineGreen}AA; } } @keyframes flash { 0% { opacity: 0; transform: scale(0.9); } 20% { opacity: 1; transform: scale(1.05); } 100% { opacity: 1; transform: scale(1); } }`}</style>
       
       <div className="absolute top-24 right-4 z-50 flex gap-4">
-        <button onClick={() => { playSynth('blip'); setShowGamepad(true); }} className="p-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-xs sm:text-sm" title="Input Cheat Code">🎮</button>
-        <button onClick={() => { playSynth('blip'); toggleMute(); }} className="p-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-xs sm:text-sm" style={{ fontFamily: '"Press Start 2P", cursive' }}>{isMuted ? '🔇' : '🔊'}</button>
+        <button onClick={() => { playSynth('blip'); setShowGamepad(true); }} className="p-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-xs sm:text-sm" title={t('hud.gamepad')} aria-label={t('hud.gamepad')}>🎮</button>
+        <button onClick={() => { playSynth('blip'); setLocale(SUPPORTED_LOCALES[(SUPPORTED_LOCALES.indexOf(locale) + 1) % SUPPORTED_LOCALES.length]); }} className="p-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-xs sm:text-sm" title={t('hud.language')} aria-label={`${t('hud.language')}: ${LOCALE_LABELS[locale]}`}>{LOCALE_LABELS[locale]}</button>
+        <button onClick={() => { playSynth('blip'); setReducedMotion(!reducedMotion); }} className={`p-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-xs sm:text-sm ${reducedMotion ? 'opacity-50' : ''}`} title={t('hud.motion')} aria-label={t('hud.motion')} aria-pressed={reducedMotion}>✨</button>
+        <button onClick={() => { playSynth('blip'); toggleMute(); }} className="p-2 border-2 border-white bg-black/50 hover:bg-black/70 active:scale-95 transition-all text-xs sm:text-sm" style={{ fontFamily: '"Press Start 2P", cursive' }} aria-label={t(isMuted ? 'hud.unmute' : 'hud.mute')}>{isMuted ? '🔇' : '🔊'}</button>
       </div>
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+      {coop.enabled && (<div role="status" className="absolute top-24 left-4 z-50 px-2 py-1 text-[8px] sm:text-[10px] bg-black/70 border-2 pointer-events-none" style={{ borderColor: coop.color, color: coop.color }}>👥 {coop.connected ? t('coop.connected', { player: coop.player }) : t('coop.waitingPeer')}</div>)}
+      {isClockOverridden && (<div className="absolute top-2 left-2 z-50 px-2 py-1 text-[8px] bg-black/70 border-2 border-yellow-400 text-yellow-300 pointer-events-none" title="Set with ?now=YYYY-MM-DD">DEBUG CLOCK · {new Date(clock).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</div>)}
 
-      <div className="absolute inset-0 z-0 bg-cover bg-center transition-opacity duration-1000" style={{ backgroundImage: `url(${COVER_BG_IMAGE})`, opacity: gameState === GameState.COVER ? 1 : 0, pointerEvents: 'none' }} />
-      <div className="absolute inset-0 z-0 bg-cover bg-center transition-opacity duration-1000" style={{ backgroundImage: `url(${GAME_BG_IMAGE})`, opacity: gameState !== GameState.COVER ? bgOpacity : 0, pointerEvents: 'none', transform: `translate(${-parallaxOffset.x}px, ${-parallaxOffset.y}px) scale(1.05)` }} />
+      <div className="absolute inset-0 z-0 bg-cover bg-center transition-opacity duration-1000" style={{ backgroundImage: `url(${story.images.cover})`, opacity: gameState === GameState.COVER ? 1 : 0, pointerEvents: 'none' }} />
+      <div className="absolute inset-0 z-0 bg-cover bg-center transition-opacity duration-1000" style={{ backgroundImage: `url(${story.images.game})`, opacity: gameState !== GameState.COVER ? bgOpacity : 0, pointerEvents: 'none', transform: `translate(${-parallaxOffset.x}px, ${-parallaxOffset.y}px) scale(1.05)` }} />
       
-      {gameState === GameState.COVER && (<CoverScreen onStart={handleStartGame} playBlip={() => playSynth('blip')} playBtn={() => playSynth('blip')} onOpenCredits={() => setShowCredits(true)} />)}
+      {gameState === GameState.COVER && (<CoverScreen onStart={handleStartGame} onContinue={savedProgress ? handleContinueGame : undefined} playBlip={() => playSynth('blip')} playBtn={() => playSynth('blip')} onOpenCredits={() => setShowCredits(true)} />)}
 
       {gameState === GameState.READY_TO_ASSEMBLE && (
          <div className="year-review-overlay fixed inset-0 z-30 flex items-center justify-center bg-black/30 backdrop-blur-sm animate-[fadeIn_0.5s]">
              <div className="absolute inset-0 bg-white/20 animate-[pulse_0.2s_ease-out] pointer-events-none mix-blend-overlay"></div>
              <div className="relative w-full h-full max-w-4xl max-h-[80vh] flex items-center justify-center p-8 animate-[flash_0.6s_ease-out_forwards]">
-                <img src={YEAR_REVIEW_IMAGE} alt="Year Review" className="max-w-full max-h-full object-contain shadow-[0_0_50px_rgba(255,255,255,0.2)] border-4 border-white transform rotate-1" />
+                <img src={story.images.yearReview} alt="Year Review" className="max-w-full max-h-full object-contain shadow-[0_0_50px_rgba(255,255,255,0.2)] border-4 border-white transform rotate-1" />
              </div>
          </div>
       )}
 
-      {gameState === GameState.PLACING_STAR && ( <DraggableStar onPlaced={handleStarPlaced} /> )}
+      {gameState === GameState.PLACING_STAR && ( <DraggableStar target={treeLayout.tip} onPlaced={() => handleStarPlaced()} readStick={controller.readStick} /> )}
 
       {gameState !== GameState.COVER && (
         <main className="relative z-10 w-full h-full flex flex-col items-center">
             <header className="w-full h-16 sm:h-24 pointer-events-none"></header>
             <div className="flex-grow w-full flex items-center justify-center envelope-container">
                 <div className="relative w-full h-[80vh] flex items-center justify-center mt-4">
-                     <div className="relative w-full h-full">
+                     <div className="relative w-full h-full" role="group" aria-label={t('a11y.letters')} onKeyDown={handleEnvelopeKeys}>
                         <div className="tree-decorations fixed inset-0 pointer-events-none opacity-0 scale-0 origin-center transition-all z-0">
-                            <div className="absolute w-14 h-32 bg-[#5C4033] border-4 border-[#3E2723]" style={{ left: '50%', top: '65%', transform: 'translate(-50%, 0)', boxShadow: '4px 4px 0 rgba(0,0,0,0.5)' }} />
+                            <ShapeBase layout={treeLayout} className="shadow-[4px_4px_0_rgba(0,0,0,0.5)]" />
                         </div>
-                       {ENVELOPES.map((env, index) => {
+                       {envelopes.map((env, index) => {
                          const layout = envelopeLayout[env.id] || { x: 50, y: 50, r: 0, z: 10 };
                          const scatterStyle: React.CSSProperties = { position: 'absolute', left: `${layout.x}%`, top: `${layout.y}%`, transform: `translate(-50%, -50%) rotate(${layout.r}deg)`, zIndex: draggingId === env.id ? 9999 : layout.z };
                          const isStaticTree = gameState === GameState.COMPLETED || gameState === GameState.PLACING_STAR;
@@ -762,12 +2168,16 @@ export default function App() {
                          return (
                             <Envelope key={env.id} data={env} index={index} isRead={readEnvelopes.has(env.id)} onInteract={handleEnvelopeInteract} onHover={() => playSynth('blip')} gameState={gameState} 
                                 style={{ ...((!isStaticTree && gameState !== GameState.ASSEMBLING) ? scatterStyle : undefined), opacity: isHidden ? 0 : 1, pointerEvents: isHidden ? 'none' : 'auto' }}
-                                errorId={errorEnvelopeId} isSnowCovered={snowyEnvelopes.has(env.id)} playRub={() => playSynth('rub')}
+                                errorId={errorEnvelopeId} isSnowCovered={model.challenges[env.id] === 'snow' && isChallengePending(model, env.id)} playRub={() => playSynth('rub')} onSnowCleared={handleSnowCleared}
+                                lockReason={gameState === GameState.COLLECTING ? formatLock(getLockReason(model, env.id, clock)) : null} hint={lockHint?.id === env.id ? lockHint.message : null}
+                                challenge={isChallengePending(model, env.id) && !INLINE_CHALLENGES.includes(model.challenges[env.id]) ? model.challenges[env.id] : null}
+                                countdown={gameState === GameState.COLLECTING && !readEnvelopes.has(env.id) && unlockDates[env.id] > clock ? formatCountdown(unlockDates[env.id] - clock) : null}
+                                readers={coop.connected && gameState === GameState.COLLECTING ? [openedHere.includes(env.id) && coop.color, peerRead.includes(env.id) && coop.peerColor].filter(Boolean) : undefined}
                             />
                          );
                        })}
                        <div className="tree-decorations fixed inset-0 pointer-events-none opacity-0 scale-0 origin-center transition-all z-20">
-                            <div className="tree-star-static absolute text-6xl sm:text-8xl animate-pulse transition-opacity duration-500" style={{ left: '50%', top: '16%', transform: 'translate(-50%, -50%)', filter: 'drop-shadow(0 0 10px #FFD700)', opacity: gameState === GameState.COMPLETED ? 1 : 0 }}>⭐</div>
+                            <div className="tree-star-static absolute text-6xl sm:text-8xl animate-pulse transition-opacity duration-500" style={{ left: `${treeLayout.tip.x}%`, top: `${treeLayout.tip.y}%`, transform: 'translate(-50%, -50%)', filter: 'drop-shadow(0 0 10px #FFD700)', opacity: gameState === GameState.COMPLETED ? 1 : 0 }}>{theme.topper}</div>
                        </div>
                      </div>
                   </div>
@@ -779,12 +2189,21 @@ export default function App() {
         <footer className="fixed bottom-0 left-0 w-full z-50 pointer-events-auto flex flex-col items-center justify-end pb-10 sm:pb-16">
             <div id="start-btn-container" className="pointer-events-auto flex flex-col items-center gap-6 mb-4">
                 {gameState === GameState.READY_TO_ASSEMBLE && (
-                     <button onClick={startAssembly} className="text-white px-12 py-6 text-xl sm:text-2xl font-bold uppercase tracking-widest animate-shake-pulse transition-all hover:brightness-110 pixel-text-glow" style={{ backgroundColor: '#E67E22', border: `4px solid ${COLORS.wood}`, boxShadow: `inset 0 4px 0 rgba(255,255,255,0.2), 0 8px 0 ${COLORS.wood}, 0 15px 20px rgba(0,0,0,0.6)`, textShadow: '2px 2px 0 #A04000' }}>START ASSEMBLY!</button>
+                     <button onClick={handleAssembleClick} disabled={ready} className="text-white px-12 py-6 text-xl sm:text-2xl font-bold uppercase tracking-widest animate-shake-pulse transition-all hover:brightness-110 pixel-text-glow disabled:animate-none disabled:opacity-70" style={{ backgroundColor: '#E67E22', border: `4px solid ${theme.palette.wood}`, boxShadow: `inset 0 4px 0 rgba(255,255,255,0.2), 0 8px 0 ${theme.palette.wood}, 0 15px 20px rgba(0,0,0,0.6)`, textShadow: '2px 2px 0 #A04000' }}>{t(ready ? 'coop.waiting' : 'assembly.start')}</button>
                 )}
+                {gameState === GameState.READY_TO_ASSEMBLE && coop.connected && peerReady && !ready && (<p role="status" className="text-[10px] tracking-widest" style={{ color: coop.peerColor }}>{t('coop.partnerReady')}</p>)}
                 {gameState === GameState.COMPLETED && (
                     <div className="flex flex-col gap-3 items-center">
-                        <button onClick={handleResetGame} className="px-6 py-3 text-sm sm:text-base font-bold uppercase tracking-widest transition-colors hover:scale-105 active:scale-95" style={{ backgroundColor: COLORS.cream, color: COLORS.deepPineGreen, boxShadow: `4px 4px 0 ${COLORS.deepPineGreen}`, border: `2px solid ${COLORS.deepPineGreen}` }}>◀ RETURN TO HOME</button>
-                        <button onClick={() => { playSynth('blip'); setShowCredits(true); }} className="text-[10px] text-gray-400 uppercase tracking-widest hover:text-white border-b border-transparent hover:border-white transition-all">View Dev Log</button>
+                        {secrets.length > 1 && <p className="text-[10px] tracking-widest" style={{ color: theme.palette.cream }}>🥚 {t('completed.secrets', { found: secretsFound, total: secrets.length })}</p>}
+                        <div className="flex flex-wrap gap-3 justify-center">
+                            <button onClick={handleResetGame} className="px-6 py-3 text-sm sm:text-base font-bold uppercase tracking-widest transition-colors hover:scale-105 active:scale-95" style={{ backgroundColor: theme.palette.cream, color: theme.palette.deepPineGreen, boxShadow: `4px 4px 0 ${theme.palette.deepPineGreen}`, border: `2px solid ${theme.palette.deepPineGreen}` }}>{t('completed.home')}</button>
+                            <KeepsakeButton story={story} layout={treeLayout} playBlip={() => playSynth('blip')} />
+                        </div>
+                        <div className="flex gap-6">
+                            <button onClick={() => { playSynth('blip'); setShowBooklet(true); }} className="text-[10px] text-gray-400 uppercase tracking-widest hover:text-white border-b border-transparent hover:border-white transition-all">{t('completed.print')}</button>
+                            <button onClick={() => { playSynth('blip'); setShowReplies(true); }} className="text-[10px] text-gray-400 uppercase tracking-widest hover:text-white border-b border-transparent hover:border-white transition-all">{t('completed.replies', { count: replyBundle.replies.length })}</button>
+                            <button onClick={() => { playSynth('blip'); setShowCredits(true); }} className="text-[10px] text-gray-400 uppercase tracking-widest hover:text-white border-b border-transparent hover:border-white transition-all">{t('completed.devLog')}</button>
+                        </div>
                     </div>
                 )}
             </div>
@@ -793,17 +2212,37 @@ export default function App() {
 
       {gameState === GameState.COMPLETED && (
         <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
-            <div className="p-10 sm:p-14 backdrop-blur-sm animate-[elasticPop_0.8s_cubic-bezier(0.175,0.885,0.32,1.275)_forwards]" style={{ backgroundColor: `${COLORS.deepPineGreen}66`, animation: 'glowFlash 3s infinite alternate, breathe 4s infinite ease-in-out' }}>
-                <h2 className="pixel-text-glow text-2xl sm:text-4xl text-center leading-normal drop-shadow-[4px_4px_0_#2F4858]" style={{ color: COLORS.cream }}>Merry Christmas,<br/><span className="whitespace-nowrap" style={{ color: COLORS.sunsetOrange }}>My Player 2!</span></h2>
+            <div className="p-10 sm:p-14 backdrop-blur-sm animate-[elasticPop_0.8s_cubic-bezier(0.175,0.885,0.32,1.275)_forwards]" style={{ backgroundColor: `${theme.palette.deepPineGreen}66`, animation: 'glowFlash 3s infinite alternate, breathe 4s infinite ease-in-out' }}>
+                <h2 className="pixel-text-glow text-2xl sm:text-4xl text-center leading-normal drop-shadow-[4px_4px_0_#2F4858]" style={{ color: theme.palette.cream }}>{themeText.banner[0]}{themeText.banner[1] !== undefined && <><br/><span className="whitespace-nowrap" style={{ color: theme.palette.sunsetOrange }}>{themeText.banner[1]}</span></>}</h2>
             </div>
         </div>
       )}
 
-      {secretUnlocked && (<SecretModal onClose={() => { setSecretUnlocked(false); if (gameState === GameState.COMPLETED) { playBGM('CLEAR'); } else if (gameState === GameState.COLLECTING) { playBGM('GROUND'); } }} />)}
-      {showGamepad && (<VirtualGamepad onClose={() => setShowGamepad(false)} onInput={handleInput} />)}
-      {activeEnvelope && (<Modal data={activeEnvelope} onClose={handleModalClose} playBlip={() => playSynth('blip')} />)}
-      {showSnow && <Snowfall />}
-      {showCredits && <CreditsModal onClose={() => setShowCredits(false)} />}
+      {slotEditor && (
+        <div className="fixed top-4 left-4 right-4 z-[60] flex flex-wrap gap-2 items-center pointer-events-none">
+            <span className="text-[10px] tracking-widest mr-auto bg-black/70 px-2 py-1" style={{ color: theme.palette.sunsetOrange }}>
+                {gameState === GameState.COMPLETED ? `DRAG THE SLOTS · ${hasSlotsForShape(story, theme.shape) ? 'HAND-PLACED' : 'GENERATED'}` : `ASSEMBLE AND PLACE THE ${theme.topper} TO EDIT THE SLOTS`}
+            </span>
+            <button className={`${editorBtn} pointer-events-auto`} disabled={!hasSlotsForShape(story, theme.shape)} onClick={() => slotEditor.onChange(undefined)}>Reset to generated</button>
+            <button className={`${editorBtn} pointer-events-auto`} onClick={slotEditor.onClose}>Done</button>
+        </div>
+      )}
+      {slotEditor && gameState === GameState.COMPLETED && treeLayout.slots.map(slot => (
+        <div key={slot.id} onPointerDown={e => { e.preventDefault(); setSlotDragId(slot.id); }} aria-hidden="true"
+             className={`fixed z-40 w-24 h-16 sm:w-28 sm:h-20 ${slotDragId === slot.id ? 'cursor-grabbing' : 'cursor-grab'}`}
+             style={{ left: `${slot.x}%`, top: `${slot.y}%`, transform: `translate(-50%, -50%) scale(${treeLayout.envelopeScale})`, touchAction: 'none', outline: slotDragId === slot.id ? '3px dashed #FFD700' : undefined }} />
+      ))}
+      {activeSecret && (<SecretModal secret={activeSecret} found={secretsFound} total={secrets.length} onClose={handleSecretClose} />)}
+      {showGamepad && (<VirtualGamepad onClose={() => { controller.remap(null); setShowGamepad(false); }} onInput={handleGamepadInput} held={controller.held} mapping={controller.mapping} remapping={controller.remapping} onRemap={controller.remap} onResetMapping={controller.resetMapping} />)}
+      {activeLetter && (<Modal data={activeLetter} onClose={handleModalClose} playBlip={() => playSynth('blip')} reply={replies[activeLetter.id] ?? null} onReply={handleReply} onMediaPlaying={duckBGM} playSound={playSynth} />)}
+      {bonusLetter && (<Modal data={bonusLetter} onClose={closeBonusLetter} playBlip={() => playSynth('blip')} onMediaPlaying={duckBGM} playSound={playSynth} />)}
+      {activeChallenge && getChallenge(activeChallenge) && (
+          <ChallengeModal key={activeChallenge.id} envelopeId={activeChallenge.id} spec={getChallenge(activeChallenge)!} onResult={handleChallengeResult} onCancel={() => { playSynth('blip'); send({ type: 'CANCEL_CHALLENGE' }); }} playSynth={playSynth} />
+      )}
+      {showAmbience && <Ambience still={reducedMotion} />}
+      {showCredits && <CreditsModal onClose={() => setShowCredits(false)} onPrint={gameState === GameState.COMPLETED ? () => { playSynth('blip'); setShowCredits(false); setShowBooklet(true); } : undefined} />}
+      {showBooklet && <PrintBooklet story={story} onClose={() => { playSynth('blip'); setShowBooklet(false); }} />}
+      {showReplies && <RepliesModal story={story} bundle={replyBundle} onClose={() => { playSynth('blip'); setShowReplies(false); }} playBlip={() => playSynth('blip')} exportable />}
     </div>
   );
 }
@@ -0,0 +1,88 @@
+// ==========================================
+// 📥 ASSET LOADER
+// ==========================================
+// Preloads images a few at a time. Every URL is retried with growing pauses, then the asset's
+// fallback URLs are tried in order. The report says which URL each asset ended up with and why
+// the others failed, so the loading screen can show the player what is missing.
+
+export interface AssetRequest {
+  key: string; // Stable name for the report, e.g. "envelopes.3.imageUrl"
+  urls: string[]; // Primary URL first, then fallbacks
+}
+
+export interface AssetAttempt {
+  url: string;
+  error: string;
+}
+
+export interface AssetOutcome {
+  key: string;
+  url: string | null; // The URL that loaded, null when every one failed
+  failures: AssetAttempt[]; // Every failed try, in order
+}
+
+export interface AssetReport {
+  outcomes: AssetOutcome[];
+  failed: AssetOutcome[];
+}
+
+export interface LoaderOptions {
+  concurrency?: number;
+  retries?: number; // Extra tries per URL
+  backoffMs?: number; // Pause before the first retry, doubled for each one after
+  timeoutMs?: number; // Per try
+  onProgress?: (done: number, total: number) => void;
+  load?: (url: string, timeoutMs: number) => Promise<void>;
+}
+
+export const DEFAULT_LOADER_OPTIONS = { concurrency: 4, retries: 2, backoffMs: 400, timeoutMs: 15000 };
+
+/** True when the asset loaded from a fallback URL; a primary URL that only needed a retry doesn't count. */
+export const usedFallback = (outcome: AssetOutcome): boolean =>
+  outcome.url !== null && outcome.failures.length > 0 && outcome.url !== outcome.failures[0].url;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Resolves once the image decoded. Rejects on error or after `timeoutMs`; the timer is always cleared. */
+export const loadImage = (url: string, timeoutMs: number): Promise<void> => new Promise((resolve, reject) => {
+  const img = new Image();
+  const done = () => { clearTimeout(timer); img.onload = null; img.onerror = null; };
+  const timer = setTimeout(() => { done(); img.src = ''; reject(new Error(`timed out after ${Math.round(timeoutMs / 1000)}s`)); }, timeoutMs);
+  img.onload = () => { done(); resolve(); };
+  img.onerror = () => { done(); reject(new Error(navigator.onLine === false ? 'offline' : 'failed to load')); };
+  img.src = url;
+});
+
+const loadOne = async (request: AssetRequest, options: Required<Omit<LoaderOptions, 'onProgress'>>): Promise<AssetOutcome> => {
+  const failures: AssetAttempt[] = [];
+  for (const url of request.urls) {
+    for (let attempt = 0; attempt <= options.retries; attempt++) {
+      if (attempt > 0) await sleep(options.backoffMs * 2 ** (attempt - 1));
+      try {
+        await options.load(url, options.timeoutMs);
+        return { key: request.key, url, failures };
+      } catch (err) {
+        failures.push({ url, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+  }
+  return { key: request.key, url: null, failures };
+};
+
+/** Loads every request with at most `concurrency` in flight. Never rejects; failures end up in the report. */
+export const loadAssets = async (requests: AssetRequest[], { onProgress, ...rest }: LoaderOptions = {}): Promise<AssetReport> => {
+  const options = { ...DEFAULT_LOADER_OPTIONS, load: loadImage, ...rest };
+  const outcomes: AssetOutcome[] = new Array(requests.length);
+  let next = 0, done = 0;
+  onProgress?.(0, requests.length);
+
+  const worker = async () => {
+    while (next < requests.length) {
+      const index = next++;
+      outcomes[index] = await loadOne(requests[index], options);
+      onProgress?.(++done, requests.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, requests.length) }, worker));
+  return { outcomes, failed: outcomes.filter(o => o.url === null) };
+};
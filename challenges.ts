@@ -0,0 +1,115 @@
+import { ChallengeSpec, ChallengeType, EnvelopeData } from './types';
+
+// ==========================================
+// 🧩 CHALLENGES
+// ==========================================
+// A mini-game that has to be passed before a letter opens. Set per envelope with `challenge`:
+//   { "type": "snow" }                                                   rub the snow off the envelope
+//   { "type": "quiz", "question": "Where did we meet?", "answers": ["Paris"] }
+//   { "type": "quiz", "question": "...", "answers": ["B"], "choices": ["A", "B", "C"] }
+//   { "type": "memory", "pairs": 4 }                                     flip cards to find the pairs
+//   { "type": "rhythm", "beats": 5 }                                     tap back a short beat
+// Stories without any challenge keep the classic three random snowy envelopes.
+
+export const CHALLENGE_TYPES: ChallengeType[] = ['snow', 'quiz', 'memory', 'rhythm'];
+
+// Played on the envelope itself, without the challenge window
+export const INLINE_CHALLENGES: ChallengeType[] = ['snow'];
+
+export const RANDOM_SNOW_COUNT = 3;
+export const MEMORY_PAIRS = { min: 2, max: 5, default: 3 };
+export const RHYTHM_BEATS = { min: 3, max: 8, default: 5 };
+
+export interface ChallengeResult {
+  type: ChallengeType;
+  passed: boolean;
+  attempts: number; // Failed tries count too
+}
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+/** Which challenge guards each letter. Explicit ones win; otherwise a few random letters get snow. */
+export const assignChallenges = (envelopes: EnvelopeData[], random = Math.random): Record<number, ChallengeSpec> => {
+  const assigned: Record<number, ChallengeSpec> = {};
+  envelopes.forEach(e => { if (e.challenge) assigned[e.id] = e.challenge; });
+  if (Object.keys(assigned).length > 0) return assigned;
+
+  const ids = shuffle(envelopes.map(e => e.id), random);
+  ids.slice(0, Math.min(RANDOM_SNOW_COUNT, ids.length)).forEach(id => { assigned[id] = { type: 'snow' }; });
+  return assigned;
+};
+
+// Case, accents, punctuation and extra spaces don't matter: "  Paris!" matches "paris"
+const normalizeAnswer = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export const checkQuizAnswer = (spec: Extract<ChallengeSpec, { type: 'quiz' }>, answer: string): boolean => {
+  const given = normalizeAnswer(answer);
+  return given !== '' && spec.answers.some(a => normalizeAnswer(a) === given);
+};
+
+/** Face values for a memory board, every value twice. */
+export const createMemoryDeck = (pairs = MEMORY_PAIRS.default, random = Math.random): number[] => {
+  const count = Math.min(MEMORY_PAIRS.max, Math.max(MEMORY_PAIRS.min, pairs));
+  const values = Array.from({ length: count }, (_, i) => i);
+  return shuffle([...values, ...values], random);
+};
+
+/** Gaps between beats in ms. Mixes short and long notes so it can't be passed by tapping evenly. */
+export const createRhythmPattern = (beats = RHYTHM_BEATS.default, random = Math.random): number[] => {
+  const count = Math.min(RHYTHM_BEATS.max, Math.max(RHYTHM_BEATS.min, beats));
+  const gaps = Array.from({ length: count - 1 }, () => (random() < 0.5 ? 300 : 600));
+  if (gaps.every(g => g === gaps[0])) gaps[Math.floor(random() * gaps.length)] = gaps[0] === 300 ? 600 : 300;
+  return gaps;
+};
+
+/** Whether tap timestamps (ms) follow the pattern's gaps, allowing some slack per beat. */
+export const judgeRhythm = (pattern: number[], taps: number[], tolerance = 0.3): boolean => {
+  if (taps.length !== pattern.length + 1) return false;
+  return pattern.every((gap, i) => Math.abs(taps[i + 1] - taps[i] - gap) <= Math.max(90, gap * tolerance));
+};
+
+const isPositiveInt = (v: unknown) => Number.isInteger(v) && (v as number) > 0;
+
+/** Problems with an envelope's challenge (unknown type, missing quiz answers, out of range sizes). */
+export const validateChallenge = (spec: any, path: string): string[] => {
+  if (typeof spec !== 'object' || spec === null) return [`${path}: must be an object with a type`];
+  const problems: string[] = [];
+  switch (spec.type) {
+    case 'snow':
+      break;
+    case 'quiz':
+      if (typeof spec.question !== 'string' || spec.question.trim() === '') problems.push(`${path}.question: must be a non-empty string`);
+      if (!Array.isArray(spec.answers) || spec.answers.length === 0 || !spec.answers.every((a: unknown) => typeof a === 'string' && normalizeAnswer(a) !== '')) {
+        problems.push(`${path}.answers: must list at least one accepted answer`);
+      }
+      if (spec.choices !== undefined) {
+        if (!Array.isArray(spec.choices) || spec.choices.length < 2 || !spec.choices.every((c: unknown) => typeof c === 'string')) {
+          problems.push(`${path}.choices: must list at least two options`);
+        } else if (Array.isArray(spec.answers) && !spec.choices.some((c: string) => spec.answers.some((a: unknown) => typeof a === 'string' && normalizeAnswer(a) === normalizeAnswer(c)))) {
+          problems.push(`${path}.choices: none of the choices is an accepted answer`);
+        }
+      }
+      break;
+    case 'memory':
+      if (spec.pairs !== undefined && (!isPositiveInt(spec.pairs) || spec.pairs < MEMORY_PAIRS.min || spec.pairs > MEMORY_PAIRS.max)) {
+        problems.push(`${path}.pairs: must be ${MEMORY_PAIRS.min}-${MEMORY_PAIRS.max}`);
+      }
+      break;
+    case 'rhythm':
+      if (spec.beats !== undefined && (!isPositiveInt(spec.beats) || spec.beats < RHYTHM_BEATS.min || spec.beats > RHYTHM_BEATS.max)) {
+        problems.push(`${path}.beats: must be ${RHYTHM_BEATS.min}-${RHYTHM_BEATS.max}`);
+      }
+      break;
+    default:
+      problems.push(`${path}.type: unknown challenge ${JSON.stringify(spec.type)} (${CHALLENGE_TYPES.join(', ')})`);
+  }
+  return problems;
+};
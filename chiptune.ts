@@ -0,0 +1,245 @@
+// ==========================================
+// 🎹 CHIPTUNE SEQUENCER
+// ==========================================
+// A tiny 4 channel (2x pulse, triangle, noise) pattern player on top of Web Audio.
+// Songs are plain data, so background music needs no network at all.
+//
+// Pattern syntax: one token per step, `|` is ignored (bar lines for readability).
+//   C5, F#4, Bb3  -> play a note
+//   -             -> hold the previous note for another step
+//   .             -> rest
+//   k / s / h     -> (noise channel only) kick, snare, hi-hat
+
+export type Channel = 'pulse1' | 'pulse2' | 'triangle' | 'noise';
+
+export interface Song {
+  bpm: number;
+  stepsPerBeat: number; // 2 = eighth notes, 4 = sixteenth notes
+  loop: boolean; // Default, can be overridden when played
+  duty?: number; // Pulse width for the pulse channels (0.125, 0.25 or 0.5)
+  channels: Partial<Record<Channel, string>>;
+}
+
+interface CompiledNote { value: string; steps: number; }
+type CompiledChannel = (CompiledNote | null)[]; // Indexed by step, null where nothing starts
+
+const LOOKAHEAD_SECONDS = 0.12;
+const SCHEDULER_INTERVAL_MS = 25;
+
+const CHANNEL_VOLUME: Record<Channel, number> = { pulse1: 0.09, pulse2: 0.06, triangle: 0.16, noise: 0.07 };
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export const noteToFrequency = (note: string): number | null => {
+  const match = /^([A-G])(#|b)?(-?\d)$/.exec(note);
+  if (!match) return null;
+  const [, letter, accidental, octave] = match;
+  const midi = 12 * (Number(octave) + 1) + NOTE_OFFSETS[letter] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0);
+  return 440 * Math.pow(2, (midi - 69) / 12);
+};
+
+const compileChannel = (pattern: string): CompiledChannel => {
+  const tokens = pattern.split(/\s+/).filter(t => t && t !== '|');
+  const steps: CompiledChannel = tokens.map(() => null);
+  let current: CompiledNote | null = null;
+  tokens.forEach((token, i) => {
+    if (token === '-') { if (current) current.steps++; return; }
+    if (token === '.') { current = null; return; }
+    current = { value: token, steps: 1 };
+    steps[i] = current;
+  });
+  return steps;
+};
+
+// Fourier series of a pulse wave with the given duty cycle
+const createPulseWave = (ctx: BaseAudioContext, duty: number): PeriodicWave => {
+  const harmonics = 32;
+  const real = new Float32Array(harmonics);
+  const imag = new Float32Array(harmonics);
+  for (let n = 1; n < harmonics; n++) real[n] = (2 / (n * Math.PI)) * Math.sin(n * Math.PI * duty);
+  return ctx.createPeriodicWave(real, imag);
+};
+
+const createNoiseBuffer = (ctx: BaseAudioContext): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+export class ChiptuneSequencer {
+  private ctx: AudioContext;
+  private output: GainNode;
+  private ducker: GainNode; // After `output`, so a new song's volume doesn't undo ducking
+  private noiseBuffer: AudioBuffer;
+  private pulseWaves = new Map<number, PeriodicWave>();
+  private song: Song | null = null;
+  private compiled: Partial<Record<Channel, CompiledChannel>> = {};
+  private length = 0;
+  private step = 0;
+  private nextStepTime = 0;
+  private loop = false;
+  private tempo = 1;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private voices = new Set<AudioScheduledSourceNode>();
+
+  constructor(ctx: AudioContext, destination: AudioNode) {
+    this.ctx = ctx;
+    this.output = ctx.createGain();
+    this.ducker = ctx.createGain();
+    this.output.connect(this.ducker);
+    this.ducker.connect(destination);
+    this.noiseBuffer = createNoiseBuffer(ctx);
+  }
+
+  get isPlaying() { return this.timer !== null; }
+
+  play(song: Song, { loop = song.loop, volume = 0.5 }: { loop?: boolean; volume?: number } = {}) {
+    this.stop();
+    this.song = song;
+    this.loop = loop;
+    this.compiled = {};
+    (Object.keys(song.channels) as Channel[]).forEach(ch => { this.compiled[ch] = compileChannel(song.channels[ch]!); });
+    this.length = Math.max(0, ...Object.values(this.compiled).map(c => c!.length));
+    this.step = 0;
+    this.nextStepTime = this.ctx.currentTime + 0.05;
+    this.setVolume(volume);
+    this.timer = setInterval(() => this.schedule(), SCHEDULER_INTERVAL_MS);
+    this.schedule();
+  }
+
+  stop() {
+    if (this.timer !== null) { clearInterval(this.timer); this.timer = null; }
+    this.voices.forEach(v => { try { v.stop(); } catch { /* already stopped */ } });
+    this.voices.clear();
+    this.song = null;
+  }
+
+  /** Playback speed multiplier, 1 = the song's own bpm. */
+  setTempo(multiplier: number) { this.tempo = Math.min(4, Math.max(0.25, multiplier)); }
+
+  setVolume(volume: number) { this.output.gain.setValueAtTime(volume, this.ctx.currentTime); }
+
+  /** Fades the music to `level` of its volume (1 = full), e.g. under a voice memo. */
+  duck(level: number, seconds = 0.4) {
+    const gain = this.ducker.gain, now = this.ctx.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(level, now + seconds);
+  }
+
+  private get stepDuration() { return 60 / (this.song!.bpm * this.tempo) / this.song!.stepsPerBeat; }
+
+  private schedule() {
+    if (!this.song) return;
+    while (this.nextStepTime < this.ctx.currentTime + LOOKAHEAD_SECONDS) {
+      if (this.step >= this.length) {
+        if (!this.loop) { this.stop(); return; }
+        this.step = 0;
+      }
+      const duration = this.stepDuration;
+      (Object.keys(this.compiled) as Channel[]).forEach(ch => {
+        const channel = this.compiled[ch]!;
+        // Shorter channels (e.g. a one bar drum loop) repeat under longer ones
+        const note = channel[this.step % channel.length];
+        if (note) this.playNote(ch, note, this.nextStepTime, note.steps * duration);
+      });
+      this.nextStepTime += duration;
+      this.step++;
+    }
+  }
+
+  private track(node: AudioScheduledSourceNode) {
+    this.voices.add(node);
+    node.onended = () => this.voices.delete(node);
+  }
+
+  private playNote(channel: Channel, note: CompiledNote, time: number, duration: number) {
+    const gain = this.ctx.createGain();
+    gain.connect(this.output);
+    const volume = CHANNEL_VOLUME[channel];
+
+    if (channel === 'noise') {
+      const drum = { k: { type: 'lowpass', freq: 180, decay: 0.12 }, s: { type: 'bandpass', freq: 1800, decay: 0.1 }, h: { type: 'highpass', freq: 7000, decay: 0.04 } }[note.value];
+      if (!drum) return;
+      const src = this.ctx.createBufferSource();
+      const filter = this.ctx.createBiquadFilter();
+      src.buffer = this.noiseBuffer;
+      filter.type = drum.type as BiquadFilterType;
+      filter.frequency.value = drum.freq;
+      src.connect(filter); filter.connect(gain);
+      gain.gain.setValueAtTime(volume * (note.value === 'k' ? 2.5 : 1), time);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + drum.decay);
+      src.start(time); src.stop(time + drum.decay);
+      this.track(src);
+      return;
+    }
+
+    const freq = noteToFrequency(note.value);
+    if (freq === null) return;
+    const osc = this.ctx.createOscillator();
+    if (channel === 'triangle') {
+      osc.type = 'triangle';
+    } else {
+      const duty = this.song?.duty ?? (channel === 'pulse1' ? 0.25 : 0.5);
+      if (!this.pulseWaves.has(duty)) this.pulseWaves.set(duty, createPulseWave(this.ctx, duty));
+      osc.setPeriodicWave(this.pulseWaves.get(duty)!);
+    }
+    osc.frequency.setValueAtTime(freq, time);
+    osc.connect(gain);
+    // Short gaps between notes keep repeated notes articulated
+    const end = time + Math.max(0.03, duration * 0.9);
+    gain.gain.setValueAtTime(0, time);
+    gain.gain.linearRampToValueAtTime(volume, time + 0.005);
+    gain.gain.setValueAtTime(volume, end - 0.02);
+    gain.gain.linearRampToValueAtTime(0, end);
+    osc.start(time); osc.stop(end);
+    this.track(osc);
+  }
+}
+
+// ==========================================
+// 🎼 SONGS (original compositions)
+// ==========================================
+
+export const SONGS = {
+  // Collecting phase
+  GROUND: {
+    bpm: 140, stepsPerBeat: 2, loop: true,
+    channels: {
+      pulse1:   'E5 G5 C6 G5 A5 -  G5 .  | F5 A5 C6 A5 G5 -  E5 .  | D5 F5 A5 F5 E5 G5 C6 -  | B5 G5 D5 B4 C5 -  -  .',
+      pulse2:   'C5 -  E5 -  F5 -  E5 -  | C5 -  F5 -  E5 -  C5 -  | A4 -  D5 -  C5 -  E5 -  | D5 -  B4 -  C5 -  -  .',
+      triangle: 'C3 .  G3 .  C3 .  G3 .  | F3 .  C4 .  F3 .  C4 .  | D3 .  A3 .  C3 .  G3 .  | G3 .  D3 .  C3 .  G2 .',
+      noise:    'k  h  s  h  k  h  s  h',
+    },
+  },
+  // Assembly jingle
+  CASTLE: {
+    bpm: 120, stepsPerBeat: 4, loop: false,
+    channels: {
+      pulse1:   'A4 .  C5 .  E5 .  A5 -  | -  -  G#5 - -  -  A5 -  | -  -  -  -  -  -  .  .',
+      triangle: 'A2 -  -  -  -  -  -  -  | E2 -  -  -  A2 -  -  -  | -  -  -  -  -  -  .  .',
+      noise:    'k  .  .  .  s  .  .  .  | k  .  .  .  s  .  s  s  | k  .  .  .  .  .  .  .',
+    },
+  },
+  // Secret unlocked
+  STAR: {
+    bpm: 180, stepsPerBeat: 2, loop: true, duty: 0.125,
+    channels: {
+      pulse1:   'C6 .  C6 .  C6 D6 E6 .  | G5 .  G5 .  G5 A5 B5 .  | C6 E6 G6 E6 C6 E6 G6 E6 | D6 .  B5 .  G5 .  .  .',
+      triangle: 'C3 C4 C3 C4 C3 C4 C3 C4 | G2 G3 G2 G3 G2 G3 G2 G3 | A2 A3 A2 A3 F2 F3 F2 F3 | G2 G3 G2 G3 G2 G3 G2 G3',
+      noise:    'k  h  k  h  s  h  k  h',
+    },
+  },
+  // Tree completed
+  CLEAR: {
+    bpm: 100, stepsPerBeat: 2, loop: true,
+    channels: {
+      pulse1:   'G5 -  E5 -  C5 -  E5 -  | F5 -  D5 -  B4 -  D5 -  | E5 -  C5 -  A4 -  C5 -  | D5 -  -  -  G4 -  -  .',
+      pulse2:   'C5 -  -  -  G4 -  -  -  | B4 -  -  -  G4 -  -  -  | A4 -  -  -  E4 -  -  -  | B4 -  -  -  D4 -  -  .',
+      triangle: 'C3 -  -  -  G2 -  -  -  | G2 -  -  -  D3 -  -  -  | A2 -  -  -  E2 -  -  -  | G2 -  -  -  G2 -  -  .',
+      noise:    'k  .  h  .  s  .  h  .',
+    },
+  },
+} satisfies Record<string, Song>;
+
+export type SongKey = keyof typeof SONGS;
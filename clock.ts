@@ -0,0 +1,50 @@
+// ==========================================
+// ⏰ CLOCK
+// ==========================================
+// Every date-dependent rule reads the time from here, so future days can be tested locally:
+//   ?now=2025-12-24         starts the clock at midnight of that day
+//   ?now=2025-12-24T18:30   ... or at that time (local time)
+// The overridden clock keeps running, so countdowns still tick.
+
+const OVERRIDE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/;
+
+/** Parses a `?now=` value into a timestamp, or null when malformed. */
+export const parseClockOverride = (value: string): number | null => {
+  const match = OVERRIDE_PATTERN.exec(value);
+  if (!match) return null;
+  const [, y, m, d, hh = '0', mm = '0'] = match;
+  const date = new Date(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm));
+  return Number.isNaN(date.getTime()) || date.getMonth() !== Number(m) - 1 ? null : date.getTime();
+};
+
+const readOffset = (): number => {
+  if (typeof window === 'undefined') return 0;
+  const value = new URLSearchParams(window.location.search).get('now');
+  if (value === null) return 0;
+  const start = parseClockOverride(value);
+  if (start === null) { console.warn(`[Clock] Ignoring malformed ?now=${value} (use YYYY-MM-DD or YYYY-MM-DDTHH:MM)`); return 0; }
+  console.info(`[Clock] Debug clock starts at ${new Date(start).toString()}`);
+  return start - Date.now();
+};
+
+const offset = readOffset();
+
+export const isClockOverridden = offset !== 0;
+
+/** Current time in ms, shifted by the debug override. */
+export const now = (): number => Date.now() + offset;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Compact countdown for an envelope badge: "3d 4h", "5h 12m", "04:59". */
+export const formatCountdown = (ms: number): string => {
+  if (ms <= 0) return '00:00';
+  const totalMinutes = Math.floor(ms / 60_000);
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  const seconds = Math.floor(ms / 1000) % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
@@ -119,6 +119,28 @@ export const ENVELOPES: EnvelopeData[] = [
 
 但问题不大，往好了想，我这么善良地不为难人，是在积德的呀，肯定会越来越美丽和闪耀吧😌`, 
     imageUrl: "https://youke2.picui.cn/s1/2025/12/24/694be82799e50.png", 
+    // Too long for one page on phones, so it turns over
+    body: [
+      { type: 'text', text: "大多数时候，我已经不会再想那么多了，毕竟你早就不在恋爱的心流里了🤪（你自己知道）" },
+      { type: 'text', text: "偶尔会涌上一丢委屈，[pause=400]明明根本不是我的原因[shake]😡[/shake]" },
+      { type: 'text', text: "但问题不大，往好了想，我这么善良地不为难人，是在积德的呀，[pause=400]肯定会越来越美丽和闪耀吧😌" },
+    ],
+    // A translated message needs its own body too, or that language loses the pages
+    translations: {
+      en: {
+        title: "Dec",
+        message: `Most of the time I don't overthink it anymore. After all, you left the love-struck flow long ago🤪 (you know it)
+
+Now and then a little hurt still wells up, when it really wasn't my fault😡
+
+But it's no big deal. Look on the bright side: being this kind and easy on people is good karma, so I'm bound to keep getting prettier and shinier😌`,
+        body: [
+          { type: 'text', text: "Most of the time I don't overthink it anymore. After all, you left the love-struck flow long ago🤪 (you know it)" },
+          { type: 'text', text: "Now and then a little hurt still wells up,[pause=400] when it really wasn't my fault[shake]😡[/shake]" },
+          { type: 'text', text: "But it's no big deal. Look on the bright side: being this kind and easy on people is good karma,[pause=400] so I'm bound to keep getting prettier and shinier😌" },
+        ],
+      },
+    },
     scale: 1.0 
   },
 ];
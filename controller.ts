@@ -0,0 +1,153 @@
+import { Point } from './treeLayout';
+
+// ==========================================
+// 🎮 CONTROLLERS
+// ==========================================
+// Physical gamepads (Gamepad API, polled once per frame) and mapped keys both turn into a few
+// actions the game understands. The mapping is stored on this device and can be changed from the
+// on-screen pad. Button numbers follow the browser's "standard" layout: 0 = A, 1 = B, 12-15 = D-pad.
+
+export type ControllerAction = 'up' | 'down' | 'left' | 'right' | 'confirm' | 'back';
+
+export const CONTROLLER_ACTIONS: ControllerAction[] = ['up', 'down', 'left', 'right', 'confirm', 'back'];
+
+export interface ControllerMapping {
+  buttons: Record<ControllerAction, number[]>;
+  keys: Record<ControllerAction, string[]>; // KeyboardEvent.key values
+}
+
+export const DEFAULT_MAPPING: ControllerMapping = {
+  buttons: { up: [12], down: [13], left: [14], right: [15], confirm: [0], back: [1] },
+  keys: { up: ['ArrowUp'], down: ['ArrowDown'], left: ['ArrowLeft'], right: ['ArrowRight'], confirm: ['Enter', ' '], back: ['Escape', 'Backspace'] },
+};
+
+const MAPPING_STORAGE_KEY = 'pixel-quest:controller';
+const STICK_DEADZONE = 0.2;
+const STICK_PRESS = 0.6; // Tilt that also counts as a D-pad press
+const REPEAT_DELAY = 400; // ms a held direction waits before repeating
+const REPEAT_EVERY = 150;
+
+const isList = <T>(v: unknown, item: (x: unknown) => x is T): v is T[] => Array.isArray(v) && v.every(item);
+const isIndex = (x: unknown): x is number => Number.isInteger(x) && (x as number) >= 0;
+const isKey = (x: unknown): x is string => typeof x === 'string' && x !== '';
+
+/** The saved mapping, with defaults for anything missing or malformed. */
+export const loadControllerMapping = (): ControllerMapping => {
+  const mapping: ControllerMapping = { buttons: { ...DEFAULT_MAPPING.buttons }, keys: { ...DEFAULT_MAPPING.keys } };
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(MAPPING_STORAGE_KEY) ?? 'null');
+    CONTROLLER_ACTIONS.forEach(action => {
+      if (isList(saved?.buttons?.[action], isIndex)) mapping.buttons[action] = saved.buttons[action];
+      if (isList(saved?.keys?.[action], isKey)) mapping.keys[action] = saved.keys[action];
+    });
+  } catch { /* Defaults */ }
+  return mapping;
+};
+
+export const saveControllerMapping = (mapping: ControllerMapping) => {
+  try { window.localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify(mapping)); } catch { /* ignore */ }
+};
+
+/** Binds a button or key to `action`, taking it away from whatever action had it. */
+export const rebind = (mapping: ControllerMapping, action: ControllerAction, input: { button: number } | { key: string }): ControllerMapping => {
+  const next: ControllerMapping = { buttons: { ...mapping.buttons }, keys: { ...mapping.keys } };
+  CONTROLLER_ACTIONS.forEach(a => {
+    if ('button' in input) next.buttons[a] = a === action ? [input.button] : next.buttons[a].filter(b => b !== input.button);
+    else next.keys[a] = a === action ? [input.key] : next.keys[a].filter(k => k !== input.key);
+  });
+  return next;
+};
+
+export const actionForKey = (mapping: ControllerMapping, key: string): ControllerAction | null => {
+  const normalized = key.length === 1 ? key.toLowerCase() : key;
+  return CONTROLLER_ACTIONS.find(action => mapping.keys[action].some(k => (k.length === 1 ? k.toLowerCase() : k) === normalized)) ?? null;
+};
+
+const deadzone = (v: number) => (Math.abs(v) < STICK_DEADZONE ? 0 : Math.sign(v) * (Math.abs(v) - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+
+/** What one pad is doing right now: mapped actions held (the left stick counts as the D-pad), raw buttons and the stick. */
+export const readGamepad = (pad: Gamepad, mapping: ControllerMapping): { actions: Set<ControllerAction>; buttons: number[]; stick: Point } => {
+  const buttons = pad.buttons.flatMap((b, i) => (b.pressed ? [i] : []));
+  const stick = { x: deadzone(pad.axes[0] ?? 0), y: deadzone(pad.axes[1] ?? 0) };
+  const actions = new Set(CONTROLLER_ACTIONS.filter(action => mapping.buttons[action].some(b => buttons.includes(b))));
+  if (stick.x < -STICK_PRESS) actions.add('left');
+  if (stick.x > STICK_PRESS) actions.add('right');
+  if (stick.y < -STICK_PRESS) actions.add('up');
+  if (stick.y > STICK_PRESS) actions.add('down');
+  return { actions, buttons, stick };
+};
+
+export interface GamepadPoller {
+  /** Left stick of the first connected pad, -1..1 on each axis after the deadzone. */
+  stick: () => Point;
+  destroy: () => void;
+}
+
+interface PollerHandlers {
+  mapping: () => ControllerMapping;
+  onPress: (action: ControllerAction) => void; // Held directions repeat
+  onButton?: (index: number) => void; // Any button going down, mapped or not
+  onChange?: (held: ControllerAction[]) => void;
+}
+
+/** Polls connected pads once per frame. Sleeps while none is connected. */
+export const createGamepadPoller = ({ mapping, onPress, onButton, onChange }: PollerHandlers): GamepadPoller => {
+  const supported = typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function';
+  let frame = 0;
+  let stick: Point = { x: 0, y: 0 };
+  let held = new Set<ControllerAction>();
+  let heldButtons: number[] = [];
+  const repeatAt = new Map<ControllerAction, number>();
+
+  const reset = () => {
+    if (held.size > 0) onChange?.([]);
+    held = new Set(); heldButtons = []; stick = { x: 0, y: 0 }; repeatAt.clear();
+  };
+
+  const poll = (time: number) => {
+    const pads = navigator.getGamepads().filter((p): p is Gamepad => p !== null && p.connected);
+    if (pads.length === 0) { frame = 0; reset(); return; }
+    frame = requestAnimationFrame(poll);
+
+    const state = pads.map(pad => readGamepad(pad, mapping()));
+    const actions = new Set(state.flatMap(s => Array.from(s.actions)));
+    const buttons = Array.from(new Set(state.flatMap(s => s.buttons)));
+    stick = state[0].stick;
+
+    buttons.filter(b => !heldButtons.includes(b)).forEach(b => onButton?.(b));
+    actions.forEach(action => {
+      if (!held.has(action)) { onPress(action); repeatAt.set(action, time + REPEAT_DELAY); return; }
+      const due = repeatAt.get(action);
+      if (due !== undefined && time >= due && action !== 'confirm' && action !== 'back') { onPress(action); repeatAt.set(action, time + REPEAT_EVERY); }
+    });
+    held.forEach(action => { if (!actions.has(action)) repeatAt.delete(action); });
+    const changed = actions.size !== held.size || Array.from(actions).some(a => !held.has(a));
+    held = actions; heldButtons = buttons;
+    if (changed) onChange?.(Array.from(actions));
+  };
+
+  const wake = () => { if (supported && !frame) frame = requestAnimationFrame(poll); };
+  window.addEventListener('gamepadconnected', wake);
+  wake(); // Pads connected before the page loaded show up on their first button press
+
+  return {
+    stick: () => stick,
+    destroy: () => { window.removeEventListener('gamepadconnected', wake); cancelAnimationFrame(frame); frame = 0; },
+  };
+};
+
+const DIRECTIONS: Record<'up' | 'down' | 'left' | 'right', Point> = { up: { x: 0, y: -1 }, down: { x: 0, y: 1 }, left: { x: -1, y: 0 }, right: { x: 1, y: 0 } };
+
+/** The nearest candidate in a direction, preferring ones straight ahead over ones off to the side. */
+export const nextInDirection = <T extends Point>(from: Point, candidates: T[], direction: keyof typeof DIRECTIONS): T | null => {
+  const dir = DIRECTIONS[direction];
+  let best: T | null = null, bestScore = Infinity;
+  candidates.forEach(c => {
+    const dx = c.x - from.x, dy = c.y - from.y;
+    const ahead = dx * dir.x + dy * dir.y;
+    if (ahead <= 1) return;
+    const score = ahead + Math.abs(dx * dir.y - dy * dir.x) * 2;
+    if (score < bestScore) { best = c; bestScore = score; }
+  });
+  return best;
+};
@@ -0,0 +1,131 @@
+import { EnvelopeLayout } from './types';
+
+// ==========================================
+// 👥 CO-OP
+// ==========================================
+// Two browsers playing the same card. `?coop=<room>` joins a room over BroadcastChannel (two tabs
+// of one browser, handy for testing); adding `&relay=ws://host:8787` goes through the WebSocket relay
+// in scripts/coop-relay.mjs instead. Both players must open the same story.
+// Messages are facts, not commands: each side keeps its own game machine and catches up with what
+// the other reports (letters read, envelopes dragged, ready for the assembly, star placed).
+
+export type CoopMessage =
+  | { type: 'hello'; storyId: string; fingerprint: string; reply?: boolean }
+  | { type: 'bye' }
+  | { type: 'read'; ids: number[] } // Letters this player opened themselves
+  | { type: 'layout'; layout: EnvelopeLayout } // Where the envelopes lie, sent by the first player
+  | { type: 'drag'; id: number; x: number; y: number } // Percentages
+  | { type: 'cursor'; x: number; y: number } // Percentages, drawn as the player's trail
+  | { type: 'ready'; ready: boolean } // Confirmed the assembly
+  | { type: 'star' }; // Placed the star
+
+type Wire = CoopMessage & { from: string };
+
+/** Moves messages between the players of one room. Nothing is echoed back to the sender. */
+export interface CoopTransport {
+  send: (message: Wire) => void;
+  subscribe: (handler: (message: Wire) => void) => () => void;
+  close: () => void;
+}
+
+export const createBroadcastTransport = (room: string): CoopTransport => {
+  const channel = new BroadcastChannel(`pixel-quest:coop:${room}`);
+  const handlers = new Set<(message: Wire) => void>();
+  channel.onmessage = e => handlers.forEach(h => h(e.data));
+  return {
+    send: message => channel.postMessage(message),
+    subscribe: handler => { handlers.add(handler); return () => { handlers.delete(handler); }; },
+    close: () => { handlers.clear(); channel.close(); },
+  };
+};
+
+/** Talks to scripts/coop-relay.mjs. Messages sent before the socket opens are queued. */
+export const createWebSocketTransport = (url: string, room: string): CoopTransport => {
+  const socket = new WebSocket(url);
+  const handlers = new Set<(message: Wire) => void>();
+  const queue: string[] = [];
+  socket.addEventListener('open', () => {
+    socket.send(JSON.stringify({ type: 'join', room }));
+    queue.splice(0).forEach(data => socket.send(data));
+  });
+  socket.addEventListener('message', e => {
+    let message: Wire;
+    try { message = JSON.parse(String(e.data)); } catch { return; }
+    handlers.forEach(h => h(message));
+  });
+  socket.addEventListener('close', e => { if (e.code !== 1000) console.warn('[Co-op] Relay closed:', e.code, e.reason); });
+  return {
+    send: message => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) socket.send(data);
+      else if (socket.readyState === WebSocket.CONNECTING) queue.push(data);
+    },
+    subscribe: handler => { handlers.add(handler); return () => { handlers.delete(handler); }; },
+    close: () => { handlers.clear(); socket.close(1000); },
+  };
+};
+
+export interface CoopConfig {
+  room: string;
+  relay?: string; // ws:// or wss:// URL of the relay
+}
+
+/** The co-op room requested by the page URL, or null for a single player game. */
+export const getCoopConfig = (search = window.location.search): CoopConfig | null => {
+  const params = new URLSearchParams(search);
+  const room = params.get('coop')?.trim();
+  if (!room) return null;
+  const relay = params.get('relay')?.trim();
+  if (relay && !/^wss?:\/\//.test(relay)) { console.warn('[Co-op] Ignoring relay that is not a ws:// URL:', relay); return { room }; }
+  return relay ? { room, relay } : { room };
+};
+
+export const createTransport = ({ room, relay }: CoopConfig): CoopTransport =>
+  relay ? createWebSocketTransport(relay, room) : createBroadcastTransport(room);
+
+// Trail and badge colors: player 1 (orange) and player 2 (ice blue)
+export const PLAYER_COLORS = ['#FFAD66', '#8BE9FD'];
+
+export interface CoopSession {
+  id: string;
+  send: (message: CoopMessage) => void;
+  close: () => void;
+}
+
+interface SessionHandlers {
+  onPeer: (peer: string | null, slot: number) => void; // `slot` is this player's, 0 or 1: colors, and player 1 sends the layout
+  onMessage: (message: CoopMessage) => void;
+}
+
+/**
+ * Says hello on joining and answers the hello of whoever joins later, then passes the partner's messages on.
+ * Players of another story in the same room are ignored. The lower id is player 1.
+ */
+export const createCoopSession = (transport: CoopTransport, story: { storyId: string; fingerprint: string }, { onPeer, onMessage }: SessionHandlers): CoopSession => {
+  const id = Math.random().toString(36).slice(2, 10);
+  let peer: string | null = null;
+  const send = (message: CoopMessage) => transport.send({ ...message, from: id });
+
+  const unsubscribe = transport.subscribe(message => {
+    if (message.from === id) return;
+    if (message.type === 'hello') {
+      if (message.storyId !== story.storyId || message.fingerprint !== story.fingerprint) { console.warn('[Co-op] Other player is on a different story'); return; }
+      if (!message.reply) send({ type: 'hello', ...story, reply: true });
+      if (peer !== message.from) { peer = message.from; onPeer(peer, id < peer ? 0 : 1); }
+      return;
+    }
+    if (message.from !== peer) return;
+    if (message.type === 'bye') { peer = null; onPeer(null, 0); return; }
+    onMessage(message);
+  });
+
+  const leave = () => send({ type: 'bye' });
+  window.addEventListener('pagehide', leave);
+  send({ type: 'hello', ...story });
+
+  return {
+    id,
+    send: message => { if (peer) send(message); },
+    close: () => { leave(); window.removeEventListener('pagehide', leave); unsubscribe(); transport.close(); },
+  };
+};
@@ -0,0 +1,170 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, UnlockRules } from './types';
+import { createGameModel, gameReducer, GameEvent, GameModel, GameSetup, getLockReason, transition } from './gameMachine';
+
+// ==========================================
+// 🧪 GAME STATE MACHINE TESTS
+// ==========================================
+// Run with `npm test` (node:test through tsx, no browser).
+
+const IDS = [1, 2, 3];
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 11, 10).getTime();
+
+const run = (model: GameModel, ...events: GameEvent[]): GameModel => events.reduce(gameReducer, model);
+const collecting = (setup: GameSetup = {}, ids = IDS) => run(createGameModel(ids, setup), { type: 'START' });
+const withRules = (rules: UnlockRules, unlockDates: Record<number, number> = {}) => collecting({ rules, unlockDates });
+const readLetter = (id: number): GameEvent[] => [{ type: 'OPEN_ENVELOPE', id, now: NOW }, { type: 'CLOSE_ENVELOPE' }];
+const atPhase = (phase: GameState): GameModel => ({ ...collecting(), phase });
+
+describe('OPEN_ENVELOPE', () => {
+  it('opens letters in list order under strict rules', () => {
+    const model = withRules({ mode: 'strict' });
+    const result = transition(model, { type: 'OPEN_ENVELOPE', id: 2, now: NOW });
+    assert.equal(result.accepted, false);
+    assert.equal(result.reason, 'Read #1 first');
+    assert.deepEqual(getLockReason(model, 2, NOW)?.params, { id: 1 });
+    assert.equal(transition(model, { type: 'OPEN_ENVELOPE', id: 1, now: NOW }).model.activeId, 1);
+  });
+
+  it('keeps dated letters locked until their day', () => {
+    const model = withRules({ mode: 'date', dates: {} }, { 2: NOW + DAY });
+    assert.equal(getLockReason(model, 2, NOW)?.code, 'date');
+    assert.equal(transition(model, { type: 'OPEN_ENVELOPE', id: 2, now: NOW }).accepted, false);
+    assert.equal(transition(model, { type: 'OPEN_ENVELOPE', id: 2, now: NOW + DAY }).accepted, true);
+    assert.equal(transition(model, { type: 'OPEN_ENVELOPE', id: 3, now: NOW }).accepted, true);
+  });
+
+  it('waits for prerequisites', () => {
+    const model = withRules({ mode: 'prerequisites', requires: { 3: [1, 2] } });
+    const lock = getLockReason(model, 3, NOW);
+    assert.equal(lock?.code, 'prerequisite');
+    assert.deepEqual(lock?.params?.ids, [1, 2]);
+    assert.equal(getLockReason(run(model, ...readLetter(1)), 3, NOW)?.message, 'Read #2 first');
+    assert.equal(transition(run(model, ...readLetter(1), ...readLetter(2)), { type: 'OPEN_ENVELOPE', id: 3, now: NOW }).accepted, true);
+  });
+
+  it('opens one advent letter per day, in any order once open', () => {
+    const model = withRules({ mode: 'advent' }, { 1: NOW - DAY, 2: NOW, 3: NOW + DAY });
+    assert.equal(transition(model, { type: 'OPEN_ENVELOPE', id: 2, now: NOW }).accepted, true);
+    assert.equal(getLockReason(model, 3, NOW)?.code, 'date');
+    assert.equal(transition(model, { type: 'OPEN_ENVELOPE', id: 3, now: NOW + DAY }).accepted, true);
+  });
+
+  it('rejects unknown letters and a second open letter', () => {
+    const model = withRules({ mode: 'free' });
+    assert.equal(getLockReason(model, 9, NOW)?.code, 'unknown');
+    const open = run(model, { type: 'OPEN_ENVELOPE', id: 1, now: NOW });
+    assert.equal(transition(open, { type: 'OPEN_ENVELOPE', id: 2, now: NOW }).reason, 'Letter 1 is still open');
+  });
+
+  it('lets read letters be reopened whatever the rules', () => {
+    const model = run(withRules({ mode: 'date', dates: {} }, { 1: NOW }), ...readLetter(1));
+    assert.equal(transition(model, { type: 'OPEN_ENVELOPE', id: 1, now: NOW - DAY }).accepted, true);
+  });
+});
+
+describe('CHALLENGE_RESULT', () => {
+  const guarded = () => run(createGameModel(IDS, { rules: { mode: 'free' } }), { type: 'START', challenges: { 1: 'quiz', 2: 'snow' } });
+
+  it('unlocks the letter once passed', () => {
+    const open = run(guarded(), { type: 'START_CHALLENGE', id: 1, now: NOW });
+    assert.equal(open.activeChallengeId, 1);
+    assert.equal(transition(open, { type: 'OPEN_ENVELOPE', id: 1, now: NOW }).reason, 'Finish the challenge first');
+    const passed = run(open, { type: 'CHALLENGE_RESULT', id: 1, passed: true });
+    assert.equal(passed.activeChallengeId, null);
+    assert.deepEqual(passed.challengeResults[1], { type: 'quiz', passed: true, attempts: 1 });
+    assert.equal(transition(passed, { type: 'OPEN_ENVELOPE', id: 1, now: NOW }).accepted, true);
+  });
+
+  it('keeps the challenge open and the letter locked after a failed try', () => {
+    const failed = run(guarded(), { type: 'START_CHALLENGE', id: 1, now: NOW }, { type: 'CHALLENGE_RESULT', id: 1, passed: false });
+    assert.equal(failed.activeChallengeId, 1);
+    assert.equal(failed.challengeResults[1].passed, false);
+    const cancelled = run(failed, { type: 'CANCEL_CHALLENGE' });
+    assert.equal(transition(cancelled, { type: 'OPEN_ENVELOPE', id: 1, now: NOW }).reason, 'Pass the challenge first');
+    const retried = run(cancelled, { type: 'START_CHALLENGE', id: 1, now: NOW }, { type: 'CHALLENGE_RESULT', id: 1, passed: true });
+    assert.equal(retried.challengeResults[1].attempts, 2);
+  });
+
+  it('rejects results for challenges that are not open', () => {
+    assert.equal(transition(guarded(), { type: 'CHALLENGE_RESULT', id: 1, passed: true }).reason, 'The challenge for letter 1 is not open');
+    assert.equal(transition(guarded(), { type: 'CHALLENGE_RESULT', id: 3, passed: true }).accepted, false);
+  });
+
+  it('takes inline results straight from the envelope', () => {
+    assert.equal(transition(guarded(), { type: 'START_CHALLENGE', id: 2, now: NOW }).accepted, false);
+    const passed = run(guarded(), { type: 'CHALLENGE_RESULT', id: 2, passed: true });
+    assert.equal(transition(passed, { type: 'OPEN_ENVELOPE', id: 2, now: NOW }).accepted, true);
+  });
+});
+
+describe('SYNC_READ', () => {
+  it('reaches READY_TO_ASSEMBLE only after the open letter closes', () => {
+    const open = run(collecting({ rules: { mode: 'free' } }), ...readLetter(1), { type: 'OPEN_ENVELOPE', id: 2, now: NOW });
+    const synced = run(open, { type: 'SYNC_READ', ids: [3] });
+    assert.deepEqual(synced.read, [1, 3]);
+    assert.equal(synced.phase, GameState.COLLECTING);
+    const closed = run(synced, { type: 'CLOSE_ENVELOPE' });
+    assert.equal(closed.phase, GameState.READY_TO_ASSEMBLE);
+  });
+
+  it('finishes collecting straight away when nothing is open', () => {
+    const model = run(collecting(), { type: 'SYNC_READ', ids: IDS });
+    assert.equal(model.phase, GameState.READY_TO_ASSEMBLE);
+  });
+
+  it('rejects syncs with nothing new', () => {
+    const model = run(collecting(), ...readLetter(1));
+    assert.equal(transition(model, { type: 'SYNC_READ', ids: [1, 9] }).reason, 'Nothing new to sync');
+  });
+});
+
+describe('UNLOCK_SECRET', () => {
+  it('is ignored during ASSEMBLING', () => {
+    const model = atPhase(GameState.ASSEMBLING);
+    const result = transition(model, { type: 'UNLOCK_SECRET', id: 'konami' });
+    assert.equal(result.accepted, false);
+    assert.equal(result.model, model);
+  });
+
+  it('records the secret and can skip to assembly while collecting', () => {
+    const model = run(collecting(), { type: 'UNLOCK_SECRET', id: 'konami', skipToAssembly: true });
+    assert.equal(model.phase, GameState.READY_TO_ASSEMBLE);
+    assert.deepEqual(model.secretsFound, ['konami']);
+    assert.equal(model.activeSecret, 'konami');
+  });
+});
+
+describe('RESET', () => {
+  it('is only accepted from COMPLETED', () => {
+    Object.values(GameState).filter(phase => phase !== GameState.COMPLETED).forEach(phase => {
+      assert.equal(transition(atPhase(phase), { type: 'RESET' }).accepted, false, `RESET during ${phase}`);
+    });
+    const done = run(collecting(), { type: 'SYNC_READ', ids: IDS }, { type: 'START_ASSEMBLY' }, { type: 'ASSEMBLY_COMPLETE' }, { type: 'PLACE_STAR' });
+    assert.equal(done.phase, GameState.COMPLETED);
+    const reset = run({ ...done, secretsFound: ['konami'] }, { type: 'RESET' });
+    assert.equal(reset.phase, GameState.COVER);
+    assert.deepEqual(reset.read, []);
+    assert.deepEqual(reset.secretsFound, ['konami']);
+  });
+});
+
+describe('RESUME', () => {
+  it('continues collecting when letters are left', () => {
+    const model = run(createGameModel(IDS), { type: 'RESUME', read: [1, 9] });
+    assert.equal(model.phase, GameState.COLLECTING);
+    assert.deepEqual(model.read, [1]);
+  });
+
+  it('goes to READY_TO_ASSEMBLE when every letter was read', () => {
+    const model = run(createGameModel(IDS), { type: 'RESUME', read: [3, 1, 2] });
+    assert.equal(model.phase, GameState.READY_TO_ASSEMBLE);
+    assert.deepEqual(model.read, IDS);
+  });
+
+  it('is only accepted on the cover', () => {
+    assert.equal(transition(collecting(), { type: 'RESUME', read: [] }).accepted, false);
+  });
+});
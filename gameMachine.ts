@@ -0,0 +1,196 @@
+import { ChallengeType, GameState, UnlockRules } from './types';
+import { checkUnlock, DEFAULT_UNLOCK_RULES, LockReason } from './unlockRules';
+import { ChallengeResult, INLINE_CHALLENGES } from './challenges';
+
+// ==========================================
+// 🕹️ GAME STATE MACHINE
+// ==========================================
+// Pure: no React, DOM, timers or audio. App sends events and runs the side
+// effects (sounds, GSAP) only for transitions the machine accepted.
+
+export interface GameModel {
+  phase: GameState;
+  envelopeIds: number[]; // Reading order
+  rules: UnlockRules;
+  unlockDates: Record<number, number>; // Envelope id -> timestamp, see resolveUnlockDates
+  read: number[]; // Ids in the order they were read
+  activeId: number | null; // Letter currently open
+  challenges: Record<number, ChallengeType>; // Which letters are guarded, picked on START
+  challengeResults: Record<number, ChallengeResult>;
+  activeChallengeId: number | null; // Challenge window currently open
+  secretsFound: string[]; // Secret ids in the order they were first found, kept across RESET
+  activeSecret: string | null; // Secret whose reward is showing
+}
+
+// Fixed for the lifetime of a story
+export interface GameSetup {
+  rules?: UnlockRules;
+  unlockDates?: Record<number, number>; // Envelope id -> timestamp, see resolveUnlockDates
+  secretsFound?: string[]; // Found on earlier visits
+}
+
+export type GameEvent =
+  | { type: 'START'; challenges?: Record<number, ChallengeType> }
+  | { type: 'RESUME'; read: number[]; challenges?: Record<number, ChallengeType>; challengeResults?: Record<number, ChallengeResult> }
+  | { type: 'OPEN_ENVELOPE'; id: number; now: number } // `now` keeps date rules pure
+  | { type: 'CLOSE_ENVELOPE' }
+  | { type: 'SYNC_READ'; ids: number[] } // Letters the co-op partner read, see coop.ts
+  | { type: 'START_CHALLENGE'; id: number; now: number }
+  | { type: 'CHALLENGE_RESULT'; id: number; passed: boolean }
+  | { type: 'CANCEL_CHALLENGE' }
+  | { type: 'START_ASSEMBLY' }
+  | { type: 'ASSEMBLY_COMPLETE' }
+  | { type: 'PLACE_STAR' }
+  | { type: 'UNLOCK_SECRET'; id: string; skipToAssembly?: boolean } // `skipToAssembly` for the assemble reward
+  | { type: 'DISMISS_SECRET' }
+  | { type: 'RESET' };
+
+export interface TransitionResult {
+  accepted: boolean;
+  model: GameModel; // Unchanged when rejected
+  reason?: string; // Why the event was rejected
+}
+
+export const createGameModel = (envelopeIds: number[], { rules = DEFAULT_UNLOCK_RULES, unlockDates = {}, secretsFound = [] }: GameSetup = {}): GameModel => ({
+  phase: GameState.COVER,
+  envelopeIds,
+  rules,
+  unlockDates,
+  read: [],
+  activeId: null,
+  challenges: {},
+  challengeResults: {},
+  activeChallengeId: null,
+  secretsFound,
+  activeSecret: null,
+});
+
+// The secret can't interrupt the assembly animation or the star placement
+const SECRET_BLOCKED_PHASES = [GameState.ASSEMBLING, GameState.PLACING_STAR];
+
+/** Why a letter can't be opened at `now`, or null when it can. Read letters can always be reopened. */
+export const getLockReason = (model: GameModel, id: number, now: number): LockReason | null => {
+  if (!model.envelopeIds.includes(id)) return { code: 'unknown', message: `Unknown letter ${id}` };
+  return checkUnlock(model.rules, id, model.envelopeIds, model.read, now, model.unlockDates);
+};
+
+/** True while a letter's challenge still has to be passed. */
+export const isChallengePending = (model: GameModel, id: number): boolean =>
+  id in model.challenges && !model.challengeResults[id]?.passed && !model.read.includes(id);
+
+// Drops assignments for unknown letters so a bad save can't lock the game
+const knownOnly = <T>(model: GameModel, map: Record<number, T> = {}): Record<number, T> => {
+  const out: Record<number, T> = {};
+  model.envelopeIds.forEach(id => { if (id in map) out[id] = map[id]; });
+  return out;
+};
+
+const accept = (model: GameModel): TransitionResult => ({ accepted: true, model });
+const reject = (model: GameModel, reason: string): TransitionResult => ({ accepted: false, model, reason });
+const requirePhase = (model: GameModel, event: GameEvent, ...phases: GameState[]): TransitionResult | null =>
+  phases.includes(model.phase) ? null : reject(model, `${event.type} is not allowed during ${model.phase}`);
+
+export const transition = (model: GameModel, event: GameEvent): TransitionResult => {
+  switch (event.type) {
+    case 'START':
+      return requirePhase(model, event, GameState.COVER)
+        ?? accept({ ...model, phase: GameState.COLLECTING, read: [], activeId: null, challenges: knownOnly(model, event.challenges), challengeResults: {}, activeChallengeId: null });
+
+    case 'RESUME': {
+      const blocked = requirePhase(model, event, GameState.COVER);
+      if (blocked) return blocked;
+      const read = model.envelopeIds.filter(id => event.read.includes(id));
+      const phase = read.length === model.envelopeIds.length ? GameState.READY_TO_ASSEMBLE : GameState.COLLECTING;
+      return accept({ ...model, phase, read, activeId: null, challenges: knownOnly(model, event.challenges), challengeResults: knownOnly(model, event.challengeResults), activeChallengeId: null });
+    }
+
+    case 'OPEN_ENVELOPE': {
+      const blocked = requirePhase(model, event, GameState.COLLECTING);
+      if (blocked) return blocked;
+      if (model.activeId !== null) return reject(model, `Letter ${model.activeId} is still open`);
+      if (model.activeChallengeId !== null) return reject(model, 'Finish the challenge first');
+      const lockReason = getLockReason(model, event.id, event.now);
+      if (lockReason) return reject(model, lockReason.message);
+      if (isChallengePending(model, event.id)) return reject(model, 'Pass the challenge first');
+      return accept({ ...model, activeId: event.id });
+    }
+
+    case 'START_CHALLENGE': {
+      const blocked = requirePhase(model, event, GameState.COLLECTING);
+      if (blocked) return blocked;
+      if (model.activeId !== null || model.activeChallengeId !== null) return reject(model, 'Something else is open');
+      if (!isChallengePending(model, event.id)) return reject(model, `Letter ${event.id} has no challenge to play`);
+      if (INLINE_CHALLENGES.includes(model.challenges[event.id])) return reject(model, `The ${model.challenges[event.id]} challenge is played on the envelope`);
+      const lockReason = getLockReason(model, event.id, event.now);
+      return lockReason ? reject(model, lockReason.message) : accept({ ...model, activeChallengeId: event.id });
+    }
+
+    case 'CHALLENGE_RESULT': {
+      const blocked = requirePhase(model, event, GameState.COLLECTING);
+      if (blocked) return blocked;
+      if (!isChallengePending(model, event.id)) return reject(model, `Letter ${event.id} has no challenge to play`);
+      const inline = INLINE_CHALLENGES.includes(model.challenges[event.id]);
+      if (!inline && model.activeChallengeId !== event.id) return reject(model, `The challenge for letter ${event.id} is not open`);
+      const previous = model.challengeResults[event.id];
+      const result: ChallengeResult = { type: model.challenges[event.id], passed: event.passed, attempts: (previous?.attempts ?? 0) + 1 };
+      return accept({
+        ...model,
+        challengeResults: { ...model.challengeResults, [event.id]: result },
+        activeChallengeId: event.passed && !inline ? null : model.activeChallengeId, // Failed tries stay open for another go
+      });
+    }
+
+    case 'CANCEL_CHALLENGE':
+      return model.activeChallengeId === null ? reject(model, 'No challenge is open') : accept({ ...model, activeChallengeId: null });
+
+    case 'CLOSE_ENVELOPE': {
+      if (model.activeId === null) return reject(model, 'No letter is open');
+      const read = model.read.includes(model.activeId) ? model.read : [...model.read, model.activeId];
+      const allRead = read.length === model.envelopeIds.length;
+      return accept({ ...model, read, activeId: null, phase: allRead ? GameState.READY_TO_ASSEMBLE : model.phase });
+    }
+
+    case 'SYNC_READ': {
+      const blocked = requirePhase(model, event, GameState.COLLECTING);
+      if (blocked) return blocked;
+      const added = model.envelopeIds.filter(id => event.ids.includes(id) && !model.read.includes(id));
+      if (added.length === 0) return reject(model, 'Nothing new to sync');
+      const read = [...model.read, ...added];
+      // A challenge for a letter the partner already read has nothing left to guard
+      const activeChallengeId = model.activeChallengeId !== null && read.includes(model.activeChallengeId) ? null : model.activeChallengeId;
+      const allRead = read.length === model.envelopeIds.length && model.activeId === null && activeChallengeId === null;
+      return accept({ ...model, read, activeChallengeId, phase: allRead ? GameState.READY_TO_ASSEMBLE : model.phase });
+    }
+
+    case 'START_ASSEMBLY':
+      return requirePhase(model, event, GameState.READY_TO_ASSEMBLE) ?? accept({ ...model, phase: GameState.ASSEMBLING });
+
+    case 'ASSEMBLY_COMPLETE':
+      return requirePhase(model, event, GameState.ASSEMBLING) ?? accept({ ...model, phase: GameState.PLACING_STAR });
+
+    case 'PLACE_STAR':
+      return requirePhase(model, event, GameState.PLACING_STAR) ?? accept({ ...model, phase: GameState.COMPLETED });
+
+    case 'UNLOCK_SECRET': {
+      if (SECRET_BLOCKED_PHASES.includes(model.phase)) return reject(model, `Secrets are disabled during ${model.phase}`);
+      if (model.activeSecret !== null) return reject(model, 'Secret already showing');
+      const secretsFound = model.secretsFound.includes(event.id) ? model.secretsFound : [...model.secretsFound, event.id];
+      if (!event.skipToAssembly) return accept({ ...model, secretsFound, activeSecret: event.id });
+      // The shortcut only makes sense while letters are still being collected
+      const blocked = requirePhase(model, event, GameState.COLLECTING);
+      if (blocked) return blocked;
+      if (model.activeId !== null || model.activeChallengeId !== null) return reject(model, 'Something else is open');
+      return accept({ ...model, secretsFound, activeSecret: event.id, phase: GameState.READY_TO_ASSEMBLE });
+    }
+
+    case 'DISMISS_SECRET':
+      return model.activeSecret !== null ? accept({ ...model, activeSecret: null }) : reject(model, 'No secret is showing');
+
+    case 'RESET':
+      return requirePhase(model, event, GameState.COMPLETED)
+        ?? accept(createGameModel(model.envelopeIds, { rules: model.rules, unlockDates: model.unlockDates, secretsFound: model.secretsFound }));
+  }
+};
+
+/** Reducer form of `transition` for useReducer: rejected events leave the model untouched. */
+export const gameReducer = (model: GameModel, event: GameEvent): GameModel => transition(model, event).model;
@@ -0,0 +1,377 @@
+import { EnvelopeData, StoryPack } from './types';
+
+// ==========================================
+// 🌐 LOCALES
+// ==========================================
+// UI strings live in one catalog per locale. Story text is localized per envelope with `translations`:
+//   { "title": "Jan", "message": "...", "translations": { "en": { "message": "..." } } }
+// The envelope's own title and message are shown for every locale without a variant.
+
+export type Locale = 'en' | 'zh';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'zh'];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_LABELS: Record<Locale, string> = { en: 'EN', zh: '中' };
+
+const EN = {
+  'cover.text': 'Save point reached.\nMemories ready to replay.',
+  'cover.continue': 'Continue',
+  'cover.newGame': 'New Game',
+  'cover.start': 'Start Game',
+  'cover.devLog': 'View Dev Log',
+  'passphrase.label': '🔒 Enter passphrase',
+  'passphrase.checking': 'Checking...',
+  'passphrase.unlock': '▶ Unlock',
+  'loading.title': 'LOADING MEMORIES...',
+  'loading.complete': '{percent}% COMPLETE',
+  'loading.failed': '{count} image(s) could not be loaded. Check the connection, or go on without them.',
+  'loading.continue': '▶ Continue anyway',
+  'loading.retry': '↻ Try again',
+  'loading.placeholder': 'pixel art stands in',
+  'loading.fallback': '{key} loaded from a fallback: {url}',
+  'error.title': 'STORY FAILED TO LOAD',
+  'error.linkTitle': 'BROKEN LINK',
+  'error.linkHint': "This card link couldn't be opened. Ask the sender to copy the whole link again.",
+  'credits.title': 'PROJECT ARCHIVE',
+  'credits.close': 'x CLOSE',
+  'credits.commits': 'Commits',
+  'credits.versions': 'Versions',
+  'credits.coffee': 'Coffee',
+  'credits.love': 'Love Lvl',
+  'credits.print': '🖨 Print Memories',
+  'credits.footer': 'Built with React & Love.\nVersion 2.0.0 // 2025',
+  'gamepad.title': 'CONTROLLER 1',
+  'gamepad.hint': 'HINT: KONAMI CODE',
+  'gamepad.close': 'Close controller',
+  'gamepad.up': 'Up',
+  'gamepad.down': 'Down',
+  'gamepad.left': 'Left',
+  'gamepad.right': 'Right',
+  'gamepad.confirm': 'A · Open / OK',
+  'gamepad.back': 'B · Close',
+  'gamepad.mapping': 'BUTTONS',
+  'gamepad.reset': 'Reset',
+  'gamepad.press': 'Press a button or key…',
+  'hud.gamepad': 'Input Cheat Code',
+  'hud.language': 'Language',
+  'hud.mute': 'Mute',
+  'hud.unmute': 'Unmute',
+  'hud.motion': 'Reduce motion',
+  'envelope.rubMe': 'RUB ME',
+  'envelope.label': 'Letter {id}',
+  'envelope.read': 'read',
+  'envelope.snow': 'covered in snow, press Enter to clear it',
+  'envelope.opensIn': 'opens in {time}',
+  'star.drag': 'DRAG ME TO THE TOP!',
+  'star.label': 'Press Enter to put {topper} on top',
+  'modal.next': '▼ NEXT',
+  'modal.more': 'MORE ▶',
+  'modal.back': '◀ BACK',
+  'modal.page': '{page}/{total}',
+  'letter.previous': 'Previous picture',
+  'letter.next': 'Next picture',
+  'letter.picture': 'Picture {index} of {total}',
+  'letter.voiceMemo': 'Voice memo',
+  'letter.video': 'Video',
+  'assembly.start': 'START ASSEMBLY!',
+  'coop.waitingPeer': 'CO-OP: WAITING FOR PLAYER 2…',
+  'coop.connected': 'CO-OP: YOU ARE PLAYER {player}',
+  'coop.waiting': 'WAITING FOR PARTNER…',
+  'coop.partnerReady': 'YOUR PARTNER IS READY!',
+  'completed.banner1': 'Merry Christmas,',
+  'completed.banner2': 'My Player 2!',
+  'theme.birthday.cover': 'New level unlocked.\nOne more year to replay.',
+  'theme.birthday.banner1': 'Happy Birthday,',
+  'theme.birthday.banner2': 'My Player 2!',
+  'theme.anniversary.cover': 'Save point reached.\nAnother year together.',
+  'theme.anniversary.banner1': 'Happy Anniversary,',
+  'theme.anniversary.banner2': 'My Player 2!',
+  'shape.tree': 'tree',
+  'shape.heart': 'heart',
+  'shape.cake': 'cake',
+  'completed.home': '◀ RETURN TO HOME',
+  'completed.print': 'Print Memories',
+  'completed.devLog': 'View Dev Log',
+  'completed.replies': 'Replies ({count})',
+  'reply.write': '✎ WRITE BACK',
+  'reply.edit': '✎ EDIT REPLY',
+  'reply.label': 'Your reply',
+  'reply.placeholder': 'Write a few lines back…',
+  'reply.sticker': 'Sticker',
+  'reply.noSticker': 'No sticker',
+  'reply.stickerN': 'Sticker {n}',
+  'reply.cancel': 'Cancel',
+  'reply.save': 'Save',
+  'replies.title': 'REPLIES',
+  'replies.empty': 'No replies yet. Write back under a letter while reading it.',
+  'replies.file': '💾 Save file',
+  'replies.link': '🔗 Copy link',
+  'replies.copied': 'Link copied. Send it back to the sender.',
+  'keepsake.save': '💾 SAVE PICTURE',
+  'keepsake.wallpaper': 'Phone wallpaper',
+  'keepsake.square': 'Square post',
+  'booklet.header': 'PRINT MEMORIES · {count} LETTERS',
+  'booklet.print': '🖨 Print / PDF',
+  'booklet.close': 'x Close',
+  'booklet.defaultTitle': 'Memory Log',
+  'booklet.count': '{count} memories',
+  'secret.title': 'CHEAT CODE ACTIVATED',
+  'secret.line1': 'Loophole detected.',
+  'secret.line2': 'Co-op proceeding — by choice.',
+  'secret.ok': 'OK',
+  'secret.letter': 'A hidden letter appeared!',
+  'secret.palette': 'The colors changed!',
+  'secret.music': 'New music unlocked!',
+  'secret.assemble': 'Shortcut! Straight to the {shape}.',
+  'secret.found': 'SECRETS FOUND: {found}/{total}',
+  'completed.secrets': '{found}/{total} SECRETS FOUND',
+  'lock.order': 'Read #{id} first',
+  'lock.date': 'Opens on {date}',
+  'lock.prerequisite': 'Read {ids} first',
+  'lock.challenge': 'Pass the challenge first',
+  'lock.unknown': 'Locked',
+  'list.and': ' and ',
+  'challenge.snow': 'RUB THE SNOW',
+  'challenge.quiz': 'QUIZ TIME',
+  'challenge.memory': 'MEMORY MATCH',
+  'challenge.rhythm': 'TAP THE RHYTHM',
+  'challenge.letter': 'LETTER #{id}',
+  'challenge.later': 'x LATER',
+  'quiz.wrong': 'Not quite. Try again!',
+  'memory.prompt': 'FIND THE PAIRS',
+  'rhythm.listen': '▶ Listen',
+  'rhythm.listening': '♪ Listen...',
+  'rhythm.again': '↺ Listen again',
+  'rhythm.tap': 'TAP!',
+  'rhythm.prompt': 'Listen to the beat, then tap it back.',
+  'rhythm.wrong': 'Out of step. Try again!',
+  'a11y.letters': 'Letters',
+  'a11y.progress': '{read} of {total} memories read',
+  'a11y.ready': 'All memories read. The {shape} is ready to assemble.',
+  'a11y.star': 'Press Enter on {topper} to put it on top.',
+};
+
+export type MessageKey = keyof typeof EN;
+
+const ZH: Record<MessageKey, string> = {
+  'cover.text': '存档点已到达。\n回忆准备重播。',
+  'cover.continue': '继续游戏',
+  'cover.newGame': '新游戏',
+  'cover.start': '开始游戏',
+  'cover.devLog': '开发日志',
+  'passphrase.label': '🔒 输入口令',
+  'passphrase.checking': '验证中...',
+  'passphrase.unlock': '▶ 解锁',
+  'loading.title': '回忆加载中...',
+  'loading.complete': '已完成 {percent}%',
+  'loading.failed': '有 {count} 张图片无法加载。请检查网络，或者先继续。',
+  'loading.continue': '▶ 仍然继续',
+  'loading.retry': '↻ 重试',
+  'loading.placeholder': '以像素画代替',
+  'loading.fallback': '{key} 使用了备用地址：{url}',
+  'error.title': '故事加载失败',
+  'error.linkTitle': '链接已损坏',
+  'error.linkHint': '无法打开这张卡片的链接。请让寄件人重新复制完整的链接。',
+  'credits.title': '项目档案',
+  'credits.close': 'x 关闭',
+  'credits.commits': '提交',
+  'credits.versions': '版本',
+  'credits.coffee': '咖啡',
+  'credits.love': '爱意等级',
+  'credits.print': '🖨 打印回忆',
+  'credits.footer': '用 React 和爱打造。\n版本 2.0.0 // 2025',
+  'gamepad.title': '一号手柄',
+  'gamepad.hint': '提示：科乐美秘技',
+  'gamepad.close': '关闭手柄',
+  'gamepad.up': '上',
+  'gamepad.down': '下',
+  'gamepad.left': '左',
+  'gamepad.right': '右',
+  'gamepad.confirm': 'A · 打开 / 确定',
+  'gamepad.back': 'B · 关闭',
+  'gamepad.mapping': '按键设置',
+  'gamepad.reset': '恢复默认',
+  'gamepad.press': '请按下按钮或按键…',
+  'hud.gamepad': '输入秘技',
+  'hud.language': '语言',
+  'hud.mute': '静音',
+  'hud.unmute': '取消静音',
+  'hud.motion': '减少动画',
+  'envelope.rubMe': '擦一擦',
+  'envelope.label': '第 {id} 封信',
+  'envelope.read': '已读',
+  'envelope.snow': '被雪覆盖，按回车擦掉',
+  'envelope.opensIn': '{time} 后开启',
+  'star.drag': '把我拖到最顶上！',
+  'star.label': '按回车把{topper}放到顶上',
+  'modal.next': '▼ 继续',
+  'modal.more': '下一页 ▶',
+  'modal.back': '◀ 上一页',
+  'modal.page': '{page}/{total}',
+  'letter.previous': '上一张照片',
+  'letter.next': '下一张照片',
+  'letter.picture': '第 {index} 张，共 {total} 张',
+  'letter.voiceMemo': '语音留言',
+  'letter.video': '视频',
+  'assembly.start': '开始组装！',
+  'coop.waitingPeer': '双人模式：等待另一位玩家…',
+  'coop.connected': '双人模式：你是玩家 {player}',
+  'coop.waiting': '等待搭档…',
+  'coop.partnerReady': '搭档已准备好！',
+  'completed.banner1': '圣诞快乐，',
+  'completed.banner2': '我的二号玩家！',
+  'theme.birthday.cover': '新关卡已解锁。\n又一年回忆可以重播。',
+  'theme.birthday.banner1': '生日快乐，',
+  'theme.birthday.banner2': '我的二号玩家！',
+  'theme.anniversary.cover': '存档点已到达。\n我们又一起走过了一年。',
+  'theme.anniversary.banner1': '纪念日快乐，',
+  'theme.anniversary.banner2': '我的二号玩家！',
+  'shape.tree': '圣诞树',
+  'shape.heart': '爱心',
+  'shape.cake': '蛋糕',
+  'completed.home': '◀ 返回主页',
+  'completed.print': '打印回忆',
+  'completed.devLog': '开发日志',
+  'completed.replies': '回信（{count}）',
+  'reply.write': '✎ 写回信',
+  'reply.edit': '✎ 修改回信',
+  'reply.label': '你的回信',
+  'reply.placeholder': '写几句回信吧…',
+  'reply.sticker': '贴纸',
+  'reply.noSticker': '不用贴纸',
+  'reply.stickerN': '贴纸 {n}',
+  'reply.cancel': '取消',
+  'reply.save': '保存',
+  'replies.title': '回信',
+  'replies.empty': '还没有回信。读信时可以在信下面写回信。',
+  'replies.file': '💾 保存文件',
+  'replies.link': '🔗 复制链接',
+  'replies.copied': '链接已复制，把它发回给寄信人吧。',
+  'keepsake.save': '💾 保存图片',
+  'keepsake.wallpaper': '手机壁纸',
+  'keepsake.square': '方形图片',
+  'booklet.header': '打印回忆 · 共 {count} 封信',
+  'booklet.print': '🖨 打印 / PDF',
+  'booklet.close': 'x 关闭',
+  'booklet.defaultTitle': '回忆日志',
+  'booklet.count': '{count} 段回忆',
+  'secret.title': '秘技已激活',
+  'secret.line1': '发现漏洞。',
+  'secret.line2': '双人模式继续——心甘情愿。',
+  'secret.ok': '好的',
+  'secret.letter': '一封隐藏的信出现了！',
+  'secret.palette': '颜色变了！',
+  'secret.music': '解锁了新音乐！',
+  'secret.assemble': '捷径！直接去拼{shape}。',
+  'secret.found': '已发现秘密：{found}/{total}',
+  'completed.secrets': '已发现 {found}/{total} 个秘密',
+  'lock.order': '请先读第 {id} 封',
+  'lock.date': '{date} 开启',
+  'lock.prerequisite': '请先读 {ids}',
+  'lock.challenge': '请先完成挑战',
+  'lock.unknown': '未解锁',
+  'list.and': '、',
+  'challenge.snow': '擦掉积雪',
+  'challenge.quiz': '问答时间',
+  'challenge.memory': '记忆翻牌',
+  'challenge.rhythm': '跟上节奏',
+  'challenge.letter': '第 {id} 封信',
+  'challenge.later': 'x 稍后',
+  'quiz.wrong': '不太对，再试一次！',
+  'memory.prompt': '找出所有配对',
+  'rhythm.listen': '▶ 听一听',
+  'rhythm.listening': '♪ 听...',
+  'rhythm.again': '↺ 再听一次',
+  'rhythm.tap': '点！',
+  'rhythm.prompt': '先听节拍，再照着点出来。',
+  'rhythm.wrong': '节奏不对，再试一次！',
+  'a11y.letters': '信件',
+  'a11y.progress': '已读 {read} / {total} 段回忆',
+  'a11y.ready': '回忆全部读完，可以拼{shape}了。',
+  'a11y.star': '在{topper}上按回车，把它放到顶上。',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en: EN, zh: ZH };
+
+// BCP 47 tags for Intl formatting
+export const LOCALE_TAGS: Record<Locale, string> = { en: 'en-US', zh: 'zh-CN' };
+
+export type MessageParams = Record<string, string | number>;
+
+/** Looks up a UI string and fills in `{name}` placeholders. */
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string =>
+  (CATALOGS[locale][key] ?? EN[key]).replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+const toLocale = (value: string | null | undefined): Locale | null => {
+  if (!value) return null;
+  const base = value.toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find(l => l === base) ?? null;
+};
+
+const LOCALE_STORAGE_KEY = 'pixel-quest:locale';
+
+/** ?lang= beats the saved choice, which beats the browser language. */
+export const detectLocale = (): Locale => {
+  let saved: string | null = null;
+  try { saved = window.localStorage.getItem(LOCALE_STORAGE_KEY); } catch { /* ignore */ }
+  return toLocale(new URLSearchParams(window.location.search).get('lang'))
+    ?? toLocale(saved)
+    ?? (navigator.languages ?? [navigator.language]).map(toLocale).find(Boolean)
+    ?? DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try { window.localStorage.setItem(LOCALE_STORAGE_KEY, locale); } catch { /* ignore */ }
+};
+
+/**
+ * The envelope with title, message and body in `locale`, falling back to the story's own text.
+ * A translated message without a translated body drops the story's body, which would hide it.
+ */
+export const localizeEnvelope = (env: EnvelopeData, locale: Locale): EnvelopeData => {
+  const variant = env.translations?.[locale];
+  if (!variant) return env;
+  const { body: _, ...rest } = env;
+  const body = variant.body ?? (variant.message === undefined ? env.body : undefined);
+  return { ...rest, title: variant.title ?? env.title, message: variant.message ?? env.message, ...(body ? { body } : {}) };
+};
+
+export const localizeStory = (story: StoryPack, locale: Locale): StoryPack => ({
+  ...story,
+  envelopes: story.envelopes.map(e => localizeEnvelope(e, locale)),
+});
+
+/**
+ * Splits text into user-perceived characters, so typewriters never cut an emoji,
+ * a surrogate pair or a combining sequence in half. Falls back to code points without Intl.Segmenter.
+ */
+export const splitGraphemes = (text: string): string[] => {
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), s => s.segment);
+  }
+  return Array.from(text);
+};
+
+/** Translations that are valid but lose something: a message without a body shows no pages in that language. */
+export const getTranslationWarnings = (env: EnvelopeData, path: string): string[] =>
+  !env.body ? [] : Object.entries(env.translations ?? {}).flatMap(([locale, variant]) =>
+    variant.message !== undefined && variant.body === undefined
+      ? [`${path}.translations.${locale}: has a message but no body, so ${locale} readers see the message instead of its pages`]
+      : []);
+
+/** Validates `translations` on an envelope. */
+export const validateTranslations = (value: unknown, path: string): string[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: must map locales to { title, message }`];
+  const problems: string[] = [];
+  Object.entries(value).forEach(([locale, variant]: [string, any]) => {
+    if (!SUPPORTED_LOCALES.includes(locale as Locale)) problems.push(`${path}.${locale}: unsupported locale (${SUPPORTED_LOCALES.join(', ')})`);
+    if (typeof variant !== 'object' || variant === null) { problems.push(`${path}.${locale}: must be an object with title and/or message`); return; }
+    ['title', 'message'].forEach(field => {
+      if (variant[field] !== undefined && typeof variant[field] !== 'string') problems.push(`${path}.${locale}.${field}: must be a string`);
+    });
+    // Blocks are checked with the envelope's own body, see story.ts
+    if (variant.body !== undefined && !Array.isArray(variant.body)) problems.push(`${path}.${locale}.body: must be an array of blocks`);
+  });
+  return problems;
+};
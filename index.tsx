@@ -1,6 +1,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/press-start-2p';
 import App from './App';
+import { registerServiceWorker } from './offline';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -13,3 +15,5 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+registerServiceWorker();
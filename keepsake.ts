@@ -0,0 +1,196 @@
+import { StoryPack } from './types';
+import { TreeLayout, getCakePlate } from './treeLayout';
+import { getPixelIcon, PIXEL_ICON_SIZE } from './pixelIcons';
+import { Theme, getThemeText, resolveTheme } from './themes';
+import { DEFAULT_LOCALE, translate } from './i18n';
+
+// ==========================================
+// 🖼️ KEEPSAKE IMAGE
+// ==========================================
+// Redraws the finished tree onto a canvas instead of screenshotting the GSAP-moved DOM,
+// which is unreliable on mobile. Tree positions are percentages, just like on screen.
+// Colors, icons, shape, topper and what falls come from the story's theme (see themes.ts).
+
+export type KeepsakeFormat = 'wallpaper' | 'square';
+
+export const KEEPSAKE_FORMATS: Record<KeepsakeFormat, { width: number; height: number }> = {
+  wallpaper: { width: 1170, height: 2532 },
+  square: { width: 1080, height: 1080 },
+};
+
+// CSS pixels of the phone screen the image stands in for; everything is scaled from there
+const REFERENCE_WIDTH = 390;
+const ENVELOPE = { width: 96, height: 64, border: 3 };
+const TRUNK = { width: 56, height: 128, border: 4 };
+const PLATE_HEIGHT = 12;
+const FONT = '"Press Start 2P", monospace';
+
+// Deterministic, so the same card always gets the same snow (or petals, or confetti)
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const drawAmbience = (ctx: CanvasRenderingContext2D, theme: Theme, width: number, height: number, unit: number) => {
+  const random = seededRandom(2025);
+  const confetti = [theme.palette.sunsetOrange, theme.palette.scarfRed, theme.palette.snowShadow, '#FFFFFF'];
+  for (let i = 0; i < 140; i++) {
+    const size = Math.floor((random() * 4 + 2) * unit / 2);
+    const x = Math.floor(random() * width), y = Math.floor(random() * height), alpha = random() * 0.6 + 0.3;
+    ctx.globalAlpha = alpha;
+    if (theme.ambience === 'snow') { ctx.fillStyle = '#FFFFFF'; ctx.fillRect(x, y, size, size); }
+    if (theme.ambience === 'petals') { ctx.fillStyle = i % 3 === 0 ? '#FFFFFF' : theme.palette.sunsetOrange; ctx.fillRect(x, y, size * 2, size); ctx.fillRect(x + size / 2, y - size / 2, size, size * 2); }
+    if (theme.ambience === 'confetti') { ctx.fillStyle = confetti[i % confetti.length]; ctx.fillRect(x, y, size, size * 2); }
+  }
+  ctx.globalAlpha = 1;
+};
+
+const drawEnvelope = (ctx: CanvasRenderingContext2D, theme: Theme, id: number, cx: number, cy: number, scale: number) => {
+  const w = ENVELOPE.width * scale, h = ENVELOPE.height * scale, b = ENVELOPE.border * scale;
+  const x = cx - w / 2, y = cy - h / 2;
+
+  ctx.save();
+  ctx.shadowColor = 'rgba(255, 215, 0, 0.9)'; // The golden glow from the assembly timeline
+  ctx.shadowBlur = 8 * scale;
+  ctx.fillStyle = theme.palette.wood;
+  ctx.fillRect(x - b, y - b, w + 2 * b, h + 2 * b);
+  ctx.restore();
+  ctx.fillStyle = theme.palette.cream;
+  ctx.fillRect(x, y, w, h);
+
+  ctx.strokeStyle = theme.palette.wood;
+  ctx.lineWidth = 2 * scale;
+  ctx.beginPath();
+  ctx.moveTo(x, y); ctx.lineTo(cx, y + h * 0.6); ctx.lineTo(x + w, y);
+  ctx.stroke();
+
+  const iconSize = 22 * scale;
+  ctx.save();
+  ctx.translate(cx - iconSize / 2, y + h * 0.55 - iconSize / 2);
+  ctx.scale(iconSize / PIXEL_ICON_SIZE, iconSize / PIXEL_ICON_SIZE);
+  getPixelIcon(id, theme.icons).forEach(p => {
+    const path = new Path2D(p.d);
+    if (p.fill) { ctx.fillStyle = p.fill; ctx.fill(path); }
+    if (p.stroke) { ctx.strokeStyle = p.stroke; ctx.lineWidth = 1; ctx.stroke(path); }
+  });
+  ctx.restore();
+
+  ctx.fillStyle = theme.palette.wood;
+  ctx.font = `bold ${Math.round(11 * scale)}px ${FONT}`;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(String(id), x + w - 6 * scale, y + h - 3 * scale);
+};
+
+const drawStar = (ctx: CanvasRenderingContext2D, cx: number, cy: number, radius: number) => {
+  ctx.save();
+  ctx.shadowColor = '#FFD700';
+  ctx.shadowBlur = radius * 0.6;
+  ctx.fillStyle = '#FFD700';
+  ctx.strokeStyle = '#E6A800';
+  ctx.lineWidth = radius * 0.08;
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? radius : radius * 0.45;
+    const angle = -Math.PI / 2 + i * Math.PI / 5;
+    ctx.lineTo(cx + r * Math.cos(angle), cy + r * Math.sin(angle));
+  }
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Other toppers are emoji, drawn as text
+const drawTopper = (ctx: CanvasRenderingContext2D, topper: string, cx: number, cy: number, radius: number) => {
+  if (topper === '⭐') { drawStar(ctx, cx, cy, radius); return; }
+  ctx.save();
+  ctx.shadowColor = '#FFD700';
+  ctx.shadowBlur = radius * 0.6;
+  ctx.font = `${Math.round(radius * 2)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(topper, cx, cy);
+  ctx.restore();
+};
+
+const drawBanner = (ctx: CanvasRenderingContext2D, theme: Theme, lines: string[], width: number, height: number, unit: number) => {
+  const size = Math.round(24 * unit);
+  const lineHeight = size * 1.6;
+  ctx.font = `${size}px ${FONT}`;
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const padding = 40 * unit;
+  const boxW = Math.min(width * 0.94, textWidth + padding * 2);
+  const boxH = lineHeight * lines.length + padding * 1.5;
+  const boxX = (width - boxW) / 2, boxY = (height - boxH) / 2;
+
+  ctx.fillStyle = `${theme.palette.deepPineGreen}99`;
+  ctx.fillRect(boxX, boxY, boxW, boxH);
+  ctx.strokeStyle = theme.palette.cream;
+  ctx.lineWidth = 6 * unit;
+  ctx.strokeRect(boxX, boxY, boxW, boxH);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    const y = boxY + padding * 0.75 + lineHeight * (i + 0.5);
+    ctx.fillStyle = '#2F4858';
+    ctx.fillText(line, width / 2 + 4 * unit, y + 4 * unit, boxW - padding);
+    ctx.fillStyle = i === 0 ? theme.palette.cream : theme.palette.sunsetOrange;
+    ctx.fillText(line, width / 2, y, boxW - padding);
+  });
+};
+
+/** Draws the completed tree (or cake, or heart), its topper and the banner (the theme's, in English, unless given). Waits for the pixel font so the banner isn't drawn in a fallback face. */
+export const renderKeepsake = async (story: StoryPack, layout: TreeLayout, format: KeepsakeFormat, banner?: string[]): Promise<HTMLCanvasElement> => {
+  const { width, height } = KEEPSAKE_FORMATS[format];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  const theme = resolveTheme(story);
+
+  try { await document.fonts.load(`24px ${FONT}`); } catch { /* Draw with the fallback font */ }
+
+  const unit = Math.min(width, height) / REFERENCE_WIDTH;
+  const px = (percent: number) => width * percent / 100;
+  const py = (percent: number) => height * percent / 100;
+
+  ctx.imageSmoothingEnabled = false;
+  ctx.fillStyle = theme.palette.nightBlue;
+  ctx.fillRect(0, 0, width, height);
+  drawAmbience(ctx, theme, width, height, unit);
+
+  // Trees stand on a trunk and cakes on a plate; hearts float
+  if (theme.shape === 'tree') {
+    const trunkW = TRUNK.width * unit, trunkH = TRUNK.height * unit, trunkB = TRUNK.border * unit;
+    const trunkX = px(layout.trunk.x) - trunkW / 2, trunkY = py(layout.trunk.y);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(trunkX + 4 * unit, trunkY + 4 * unit, trunkW, trunkH);
+    ctx.fillStyle = '#3E2723';
+    ctx.fillRect(trunkX, trunkY, trunkW, trunkH);
+    ctx.fillStyle = '#5C4033';
+    ctx.fillRect(trunkX + trunkB, trunkY + trunkB, trunkW - 2 * trunkB, trunkH - 2 * trunkB);
+  } else if (theme.shape === 'cake') {
+    const plate = getCakePlate(layout);
+    const plateW = px(plate.width), plateX = px(plate.x) - plateW / 2, plateY = py(plate.y);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(plateX + 4 * unit, plateY + 4 * unit, plateW, PLATE_HEIGHT * unit);
+    ctx.fillStyle = theme.palette.cream;
+    ctx.fillRect(plateX, plateY, plateW, PLATE_HEIGHT * unit);
+  }
+
+  story.envelopes.forEach(env => {
+    const slot = layout.slots.find(s => s.id === env.id);
+    if (slot) drawEnvelope(ctx, theme, env.id, px(slot.x), py(slot.y), layout.envelopeScale * unit);
+  });
+
+  drawTopper(ctx, theme.topper, px(layout.tip.x), py(layout.tip.y), 40 * unit);
+  drawBanner(ctx, theme, banner ?? getThemeText(theme, key => translate(DEFAULT_LOCALE, key)).banner, width, height, unit);
+  return canvas;
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), 'image/png');
+});
@@ -0,0 +1,83 @@
+import { EnvelopeData, LetterBlock } from './types';
+import { validateMarkup } from './letterMarkup';
+
+// ==========================================
+// 📜 LETTER BODY
+// ==========================================
+// A letter can hold more than one message and one picture. `body` lists blocks, read one page at a time:
+//   { "type": "text", "text": "..." }
+//   { "type": "image", "url": "./assets/sled.png", "caption": "..." }
+//   { "type": "carousel", "images": [{ "url": "...", "caption": "..." }, ...] }
+//   { "type": "audio", "url": "./assets/memo.mp3", "caption": "..." }     the music ducks while it plays
+//   { "type": "video", "url": "./assets/snow.mp4", "poster": "...", "caption": "..." }
+// Letters without `body` read as before: their picture and `message` on a single page.
+
+export const LETTER_BLOCK_TYPES = ['text', 'image', 'carousel', 'audio', 'video'];
+
+/** The pages of a letter. Text pages show the letter's own picture above them. */
+export const getLetterPages = (env: EnvelopeData): LetterBlock[] => (env.body && env.body.length > 0 ? env.body : [{ type: 'text', text: env.message }]);
+
+type UrlKind = 'image' | 'media';
+
+/** Rewrites every URL in a body. `path` is relative to the body, e.g. "[2].images[0].url". */
+export const mapBodyUrls = (body: LetterBlock[], map: (url: string, path: string, kind: UrlKind) => string): LetterBlock[] =>
+  body.map((block, i): LetterBlock => {
+    switch (block.type) {
+      case 'text': return block;
+      case 'image': return { ...block, url: map(block.url, `[${i}].url`, 'image') };
+      case 'carousel': return { ...block, images: block.images.map((img, j) => ({ ...img, url: map(img.url, `[${i}].images[${j}].url`, 'image') })) };
+      case 'audio': return { ...block, url: map(block.url, `[${i}].url`, 'media') };
+      case 'video': return {
+        ...block,
+        url: map(block.url, `[${i}].url`, 'media'),
+        ...(block.poster ? { poster: map(block.poster, `[${i}].poster`, 'image') } : {}),
+      };
+    }
+  });
+
+/** The pictures in a body (not audio or video), with their paths. */
+export const getBodyImages = (body: LetterBlock[] = []): { path: string; url: string }[] => {
+  const images: { path: string; url: string }[] = [];
+  mapBodyUrls(body, (url, path, kind) => { if (kind === 'image') images.push({ path, url }); return url; });
+  return images;
+};
+
+/** Problems with a letter body. `isValidUrl` checks pictures and media (passed in, like for secrets). */
+export const validateLetterBody = (body: any, path: string, isValidUrl: (url: unknown) => boolean): string[] => {
+  if (!Array.isArray(body) || body.length === 0) return [`${path}: must be a non-empty array of blocks`];
+  const problems: string[] = [];
+  const url = (value: unknown, at: string) => { if (!isValidUrl(value)) problems.push(`${at}: bad URL ${JSON.stringify(value)}`); };
+  const caption = (value: unknown, at: string) => { if (value !== undefined && typeof value !== 'string') problems.push(`${at}: must be a string`); };
+
+  body.forEach((block: any, i: number) => {
+    const at = `${path}[${i}]`;
+    if (typeof block !== 'object' || block === null) { problems.push(`${at}: must be an object with a type`); return; }
+    switch (block.type) {
+      case 'text':
+        if (typeof block.text !== 'string' || block.text.trim() === '') problems.push(`${at}.text: must be a non-empty string`);
+        else problems.push(...validateMarkup(block.text, `${at}.text`));
+        return;
+      case 'image':
+      case 'audio':
+        url(block.url, `${at}.url`);
+        caption(block.caption, `${at}.caption`);
+        return;
+      case 'video':
+        url(block.url, `${at}.url`);
+        if (block.poster !== undefined) url(block.poster, `${at}.poster`);
+        caption(block.caption, `${at}.caption`);
+        return;
+      case 'carousel':
+        if (!Array.isArray(block.images) || block.images.length < 2) { problems.push(`${at}.images: must list at least two pictures`); return; }
+        block.images.forEach((img: any, j: number) => {
+          if (typeof img !== 'object' || img === null) { problems.push(`${at}.images[${j}]: must be an object with a url`); return; }
+          url(img.url, `${at}.images[${j}].url`);
+          caption(img.caption, `${at}.images[${j}].caption`);
+        });
+        return;
+      default:
+        problems.push(`${at}.type: unknown block ${JSON.stringify(block.type)} (${LETTER_BLOCK_TYPES.join(', ')})`);
+    }
+  });
+  return problems;
+};
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MARKUP_COLORS, markupToPlainText, parseMarkup, toTypingSteps, validateMarkup } from './letterMarkup';
+
+// ==========================================
+// 🧪 LETTER MARKUP TESTS
+// ==========================================
+
+const plain = { bold: false, shake: false, color: undefined, speed: 1 };
+
+describe('parseMarkup', () => {
+  it('styles runs and nests tags', () => {
+    const { tokens, problems } = parseMarkup('a[b]b[color=orange]c[/color][/b]');
+    assert.deepEqual(problems, []);
+    assert.deepEqual(tokens, [
+      { type: 'text', text: 'a', style: plain },
+      { type: 'text', text: 'b', style: { ...plain, bold: true } },
+      { type: 'text', text: 'c', style: { ...plain, bold: true, color: MARKUP_COLORS.orange } },
+    ]);
+  });
+
+  it('writes an escaped bracket as text', () => {
+    const { tokens, problems } = parseMarkup('\\[b]not bold');
+    assert.deepEqual(problems, []);
+    assert.equal(markupToPlainText(tokens), '[b]not bold');
+    assert.equal(tokens.length, 1);
+  });
+
+  it('keeps unknown tags as typed', () => {
+    const { tokens, problems } = parseMarkup('[wave]hi[/wave]');
+    assert.deepEqual(problems, []);
+    assert.equal(markupToPlainText(tokens), '[wave]hi[/wave]');
+  });
+
+  it('reports bad values and ignores them', () => {
+    const { tokens, problems } = parseMarkup('[color=plaid]a[/color][speed=9]b[/speed][b=1]c[/b]');
+    assert.equal(problems.length, 3);
+    assert.match(problems[0], /unknown color/);
+    assert.match(problems[1], /speed must be/);
+    assert.match(problems[2], /takes no value/);
+    assert.deepEqual(tokens.map(t => t.type === 'text' && t.style), [plain, plain, { ...plain, bold: true }]);
+  });
+
+  it('reports bad pauses and sounds and skips them', () => {
+    const { tokens, problems } = parseMarkup('a[pause=-1][pause=99999][sound=moo][/pause]b');
+    assert.equal(problems.length, 4);
+    assert.match(problems[3], /nothing to close/);
+    assert.deepEqual(tokens, [{ type: 'text', text: 'ab', style: plain }]);
+  });
+
+  it('reports unclosed and unopened tags', () => {
+    assert.deepEqual(parseMarkup('[shake]oh no').problems, ['[shake] is never closed']);
+    assert.deepEqual(parseMarkup('fine[/b]').problems, ['[/b] without [b]']);
+  });
+
+  it('uses the innermost speed and color', () => {
+    const { tokens } = parseMarkup('[speed=2][speed=0.5]a[/speed]b[/speed]');
+    assert.deepEqual(tokens.map(t => t.type === 'text' && t.style.speed), [0.5, 2]);
+  });
+});
+
+describe('toTypingSteps', () => {
+  it('puts pauses and sounds before the next grapheme', () => {
+    const steps = toTypingSteps(parseMarkup('a[pause=100][sound=coin]b').tokens, 10);
+    assert.deepEqual(steps.map(s => [s.text, s.delay, s.sounds]), [['a', 10, []], ['b', 110, ['coin']]]);
+  });
+
+  it('keeps emoji whole and adds a trailing step for cues at the end', () => {
+    const steps = toTypingSteps(parseMarkup('👍🏽[pause=50]').tokens, 10);
+    assert.deepEqual(steps.map(s => [s.token, s.text, s.delay]), [[0, '👍🏽', 10], [-1, '', 50]]);
+  });
+
+  it('types faster at higher speeds', () => {
+    assert.equal(toTypingSteps(parseMarkup('[speed=2]a[/speed]').tokens, 40)[0].delay, 20);
+  });
+});
+
+describe('validateMarkup', () => {
+  it('prefixes problems with the path and ignores non-strings', () => {
+    assert.deepEqual(validateMarkup('[b]', 'envelopes[0].message'), ['envelopes[0].message: [b] is never closed']);
+    assert.deepEqual(validateMarkup(42, 'x'), []);
+  });
+});
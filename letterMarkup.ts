@@ -0,0 +1,142 @@
+import { COLORS } from './constants';
+import { splitGraphemes } from './i18n';
+
+// ==========================================
+// ✒️ LETTER MARKUP
+// ==========================================
+// RPG-style tags inside letter text (`message` and text blocks):
+//   [b]bold[/b]   [color=orange]colored[/color] or [color=#8BE9FD]   [shake]dramatic[/shake]
+//   [speed=0.5]slow, or [speed=3] fast,[/speed]   [pause=800]   [sound=coin]
+// Unknown tags stay as typed, and \[ writes a plain bracket, so ordinary text never breaks.
+// The typewriter reveals one grapheme per step (see toTypingSteps); pauses and sounds land between them.
+
+export const TYPE_MS = 40; // Per character at speed 1
+export const MAX_PAUSE_MS = 5000;
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 4;
+
+// The synth sounds in App.tsx a letter may cue
+export const MARKUP_SOUNDS = ['blip', 'coin', 'powerup', 'jump', 'fanfare', 'rub', 'buzz'] as const;
+export type MarkupSound = typeof MARKUP_SOUNDS[number];
+
+export const MARKUP_COLORS: Record<string, string> = {
+  orange: COLORS.sunsetOrange,
+  red: COLORS.scarfRed,
+  green: '#7BC47F',
+  blue: '#8BE9FD',
+  gold: '#FFD700',
+  pink: '#FF8FB1',
+  gray: COLORS.snowShadow,
+};
+
+export interface MarkupStyle {
+  bold: boolean;
+  shake: boolean;
+  color?: string;
+  speed: number; // Multiplier, 2 types twice as fast
+}
+
+export type MarkupToken =
+  | { type: 'text'; text: string; style: MarkupStyle }
+  | { type: 'pause'; ms: number }
+  | { type: 'sound'; sound: MarkupSound };
+
+type SpanTag = 'b' | 'color' | 'shake' | 'speed';
+
+const TAG = /\[(\/?)(b|color|shake|speed|pause|sound)(?:=([^\]\s]*))?\]/y;
+
+const resolveColor = (value: string): string | null =>
+  MARKUP_COLORS[value.toLowerCase()] ?? (/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value) ? value : null);
+
+/**
+ * Splits marked-up text into styled runs, pauses and sound cues. Never throws: a tag with a bad value
+ * has no effect and is reported in `problems`, which story validation shows to the author.
+ */
+export const parseMarkup = (source: string): { tokens: MarkupToken[]; problems: string[] } => {
+  const tokens: MarkupToken[] = [];
+  const problems: string[] = [];
+  const open: { tag: SpanTag; value?: string }[] = [];
+  let text = '';
+
+  const style = (): MarkupStyle => {
+    const last = (tag: SpanTag) => [...open].reverse().find(o => o.tag === tag)?.value;
+    const speed = last('speed');
+    return { bold: open.some(o => o.tag === 'b'), shake: open.some(o => o.tag === 'shake'), color: last('color'), speed: speed ? Number(speed) : 1 };
+  };
+  const flush = () => { if (text) tokens.push({ type: 'text', text, style: style() }); text = ''; };
+
+  for (let i = 0; i < source.length;) {
+    if (source[i] === '\\' && source[i + 1] === '[') { text += '['; i += 2; continue; }
+    TAG.lastIndex = i;
+    const match = source[i] === '[' ? TAG.exec(source) : null;
+    if (!match) { text += source[i]; i++; continue; }
+    i = TAG.lastIndex;
+    const [raw, slash, name, value] = match;
+
+    if (name === 'pause' || name === 'sound') {
+      const ms = Number(value);
+      if (slash) problems.push(`${raw} has nothing to close`);
+      else if (name === 'pause' && !(value && Number.isFinite(ms) && ms >= 0 && ms <= MAX_PAUSE_MS)) problems.push(`${raw}: pause must be 0-${MAX_PAUSE_MS} ms`);
+      else if (name === 'sound' && !MARKUP_SOUNDS.includes(value as MarkupSound)) problems.push(`${raw}: unknown sound (${MARKUP_SOUNDS.join(', ')})`);
+      else { flush(); tokens.push(name === 'pause' ? { type: 'pause', ms } : { type: 'sound', sound: value as MarkupSound }); }
+      continue;
+    }
+
+    const tag = name as SpanTag;
+    if (slash) {
+      const index = open.map(o => o.tag).lastIndexOf(tag);
+      if (index === -1) { problems.push(`[/${tag}] without [${tag}]`); continue; }
+      flush();
+      open.splice(index, 1);
+      continue;
+    }
+    // A bad value still opens the tag (without effect), so its closing tag isn't reported too
+    let checked = value;
+    if (tag === 'color') {
+      checked = value ? resolveColor(value) ?? undefined : undefined;
+      if (!checked) problems.push(`${raw}: unknown color (${Object.keys(MARKUP_COLORS).join(', ')} or #rrggbb)`);
+    } else if (tag === 'speed') {
+      const speed = Number(value);
+      if (!(value && speed >= MIN_SPEED && speed <= MAX_SPEED)) { checked = undefined; problems.push(`${raw}: speed must be ${MIN_SPEED}-${MAX_SPEED}`); }
+    } else if (value !== undefined) {
+      problems.push(`${raw}: [${tag}] takes no value`);
+    }
+    flush();
+    open.push({ tag, value: checked });
+  }
+  flush();
+  open.forEach(o => problems.push(`[${o.tag}] is never closed`));
+  return { tokens, problems };
+};
+
+/** The words without tags, for screen readers. */
+export const markupToPlainText = (tokens: MarkupToken[]): string =>
+  tokens.map(t => (t.type === 'text' ? t.text : '')).join('');
+
+export interface TypingStep {
+  token: number; // Index of the text token this grapheme belongs to, -1 for trailing pauses and sounds
+  text: string; // One grapheme
+  delay: number; // ms to wait before revealing it (its speed plus any pause before it)
+  sounds: MarkupSound[]; // Cues played as it appears
+}
+
+/** The typewriter's schedule: one step per grapheme, so emoji never split and sounds fire on the right letter. */
+export const toTypingSteps = (tokens: MarkupToken[], charMs = TYPE_MS): TypingStep[] => {
+  const steps: TypingStep[] = [];
+  let wait = 0;
+  let sounds: MarkupSound[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type === 'pause') { wait += token.ms; return; }
+    if (token.type === 'sound') { sounds.push(token.sound); return; }
+    splitGraphemes(token.text).forEach(g => {
+      steps.push({ token: index, text: g, delay: wait + charMs / token.style.speed, sounds });
+      wait = 0; sounds = [];
+    });
+  });
+  if (wait > 0 || sounds.length > 0) steps.push({ token: -1, text: '', delay: wait, sounds });
+  return steps;
+};
+
+/** Problems with the tags in one piece of letter text, for story validation. */
+export const validateMarkup = (text: unknown, path: string): string[] =>
+  typeof text === 'string' ? parseMarkup(text).problems.map(problem => `${path}: ${problem}`) : [];
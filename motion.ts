@@ -0,0 +1,36 @@
+// ==========================================
+// 🐢 REDUCED MOTION
+// ==========================================
+// Follows the system's prefers-reduced-motion until the player flips the HUD toggle;
+// a manual choice is remembered on this device and wins over the system from then on.
+// Reduced mode drops snow, trails, confetti and parallax, stops looping animations
+// (the `reduced-motion` class on <html>, see index.css) and plays a short assembly.
+
+const MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+const MOTION_STORAGE_KEY = 'pixel-quest:reduced-motion';
+
+export const systemPrefersReducedMotion = (): boolean =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(MOTION_QUERY).matches;
+
+/** Calls back when the system setting changes. Returns the unsubscribe function. */
+export const watchSystemMotion = (onChange: (reduced: boolean) => void): (() => void) => {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return () => {};
+  const query = window.matchMedia(MOTION_QUERY);
+  const listener = (e: MediaQueryListEvent) => onChange(e.matches);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+};
+
+/** The player's manual choice, or null to follow the system. */
+export const loadMotionChoice = (): boolean | null => {
+  try {
+    const saved = window.localStorage.getItem(MOTION_STORAGE_KEY);
+    return saved === 'reduced' ? true : saved === 'full' ? false : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveMotionChoice = (reduced: boolean) => {
+  try { window.localStorage.setItem(MOTION_STORAGE_KEY, reduced ? 'reduced' : 'full'); } catch { /* ignore */ }
+};
@@ -0,0 +1,36 @@
+/// <reference types="vite/client" />
+
+// ==========================================
+// ✈️ OFFLINE
+// ==========================================
+// The service worker (public/sw.js) caches the built app when it installs. Story images usually live
+// on other hosts, so once a story is loaded the game hands their URLs to the worker as well;
+// after one online visit the card opens without a connection.
+
+export const registerServiceWorker = () => {
+  // The dev server rebuilds on every change; a caching worker would only get in the way there
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    // BASE_URL is Vite's `base`, so a card deployed under a sub-path registers its own worker and scope
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL }).catch(err => console.warn('[Offline] Service worker not registered:', err));
+  });
+};
+
+// A worker that is updating may never answer; the page stops waiting after this long
+const PRECACHE_TIMEOUT_MS = 60_000;
+
+/** Asks the worker to keep `urls` for offline use. Resolves with the URLs it couldn't fetch, or none if it never answers. */
+export const precacheAssets = async (urls: string[]): Promise<string[]> => {
+  if (!('serviceWorker' in navigator) || !(await navigator.serviceWorker.getRegistration())) return [];
+  return new Promise(resolve => {
+    const timer = setTimeout(() => { console.warn('[Offline] Service worker did not answer, images may not be cached'); resolve([]); }, PRECACHE_TIMEOUT_MS);
+    const done = (failed: string[]) => { clearTimeout(timer); resolve(failed); };
+    navigator.serviceWorker.ready.then(({ active }) => {
+      if (!active) { done([]); return; }
+      const channel = new MessageChannel();
+      channel.port1.onmessage = e => done(Array.isArray(e.data?.failed) ? e.data.failed : []);
+      channel.port1.onmessageerror = () => done([]);
+      active.postMessage({ type: 'PRECACHE', urls: Array.from(new Set(urls)) }, [channel.port2]);
+    }).catch(() => done([]));
+  });
+};
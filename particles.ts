@@ -0,0 +1,188 @@
+import { COLORS } from './constants';
+import { Point } from './treeLayout';
+import { Palette } from './themes';
+
+// ==========================================
+// ✨ PARTICLE ENGINE
+// ==========================================
+// One canvas, one requestAnimationFrame loop and a fixed pool of particles kept in typed arrays,
+// so bursts of thousands never touch React. The loop sleeps while nothing is alive.
+//   engine.spawn('confetti', x, y)          a burst with the preset's default count
+//   engine.spawn('firework', x, y, 120)     ... or with an explicit one
+//   engine.spawn('sparkle', x, y, 2, '#8BE9FD')   ... in one color instead of the preset's
+//   engine.setPalette(theme.palette)        recolors the presets for a theme (see getParticlePresets)
+//   const stop = engine.stream('snow', 40, () => ({ x: Math.random() * innerWidth, y: -4 }))
+
+export type ParticlePreset = 'confetti' | 'sparkle' | 'snow' | 'firework';
+
+interface PresetConfig {
+  colors: string[];
+  count: number; // Default burst size
+  speed: [number, number]; // px/s
+  direction?: [number, number]; // Launch angle range in radians (0 = right, PI/2 = down); full circle when absent
+  ring?: boolean; // Evenly spaced angles instead of random ones
+  gravity: number; // px/s², negative floats up
+  drag: number; // Share of the velocity lost per second
+  life: [number, number]; // ms
+  size: [number, number]; // px
+  shrink?: boolean; // Shrinks along with the fade
+}
+
+/** The presets in a theme's colors; only `colors` depends on the palette. */
+export const getParticlePresets = (palette: Palette = COLORS): Record<ParticlePreset, PresetConfig> => ({
+  confetti: { colors: [palette.sunsetOrange, palette.scarfRed, '#FFFFFF', '#FFD700', palette.deepPineGreen], count: 12, speed: [60, 260], gravity: 550, drag: 0.6, life: [900, 1600], size: [2, 6] },
+  sparkle: { colors: [palette.sunsetOrange, '#FFD700', '#FFFFFF'], count: 2, speed: [10, 40], gravity: -30, drag: 1.5, life: [400, 800], size: [2, 4], shrink: true },
+  snow: { colors: ['#FFFFFF', '#EEEEEE', palette.snowShadow], count: 24, speed: [20, 70], direction: [Math.PI / 3, Math.PI * 2 / 3], gravity: 15, drag: 0.2, life: [1500, 2600], size: [2, 4] },
+  firework: { colors: ['#FFD700', '#FFFFFF', palette.sunsetOrange, palette.scarfRed], count: 90, speed: [200, 260], ring: true, gravity: 140, drag: 1.1, life: [1100, 1800], size: [2, 4], shrink: true },
+});
+
+export const PARTICLE_PRESETS = getParticlePresets();
+
+export const MAX_PARTICLES = 5000;
+
+const PRESET_NAMES = Object.keys(PARTICLE_PRESETS) as ParticlePreset[];
+
+export interface ParticleEngine {
+  spawn: (preset: ParticlePreset, x: number, y: number, count?: number, color?: string) => void;
+  /** Recolors the presets; particles already flying keep their color. */
+  setPalette: (palette: Palette) => void;
+  /** Emits `perSecond` particles at wherever `at` points until the returned function is called. */
+  stream: (preset: ParticlePreset, perSecond: number, at: () => Point) => () => void;
+  /** Matches the canvas to its CSS size; call on window resize. */
+  resize: (width: number, height: number) => void;
+  clear: () => void;
+  destroy: () => void;
+  /** Particles currently alive. */
+  size: () => number;
+}
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+
+export const createParticleEngine = (canvas: HTMLCanvasElement, capacity = MAX_PARTICLES): ParticleEngine => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+  // Struct of arrays; live particles are packed at the front, a dead one is swapped with the last
+  const x = new Float32Array(capacity), y = new Float32Array(capacity);
+  const vx = new Float32Array(capacity), vy = new Float32Array(capacity);
+  const life = new Float32Array(capacity), maxLife = new Float32Array(capacity);
+  const size = new Float32Array(capacity);
+  const preset = new Uint8Array(capacity), color = new Uint8Array(capacity);
+  let count = 0;
+  // Every color once, so a frame switches fillStyle per color rather than per particle.
+  // Grows with colors passed to spawn() and setPalette()
+  const palette: string[] = [];
+  let presetColors: number[][] = [];
+
+  let width = 0, height = 0;
+  let frame = 0, last = 0;
+  const streams = new Set<{ preset: ParticlePreset; perSecond: number; at: () => Point; carry: number }>();
+
+  const colorIndex = (c: string) => {
+    const i = palette.indexOf(c);
+    if (i !== -1 || palette.length >= 256) return Math.max(0, i);
+    palette.push(c);
+    return palette.length - 1;
+  };
+
+  const setPalette = (colors: Palette) => {
+    const presets = getParticlePresets(colors);
+    presetColors = PRESET_NAMES.map(name => presets[name].colors.map(colorIndex));
+  };
+  setPalette(COLORS);
+
+  const emit = (name: ParticlePreset, px: number, py: number, index: number, total: number, fixedColor = -1) => {
+    if (count >= capacity) return;
+    const p = PARTICLE_PRESETS[name];
+    const presetIndex = PRESET_NAMES.indexOf(name);
+    const angle = p.ring ? (index / total) * Math.PI * 2 : p.direction ? between(p.direction) : Math.random() * Math.PI * 2;
+    const speed = between(p.speed);
+    const i = count++;
+    x[i] = px; y[i] = py;
+    vx[i] = Math.cos(angle) * speed; vy[i] = Math.sin(angle) * speed;
+    life[i] = maxLife[i] = between(p.life);
+    size[i] = between(p.size);
+    preset[i] = presetIndex;
+    const colors = presetColors[presetIndex];
+    color[i] = fixedColor >= 0 ? fixedColor : colors[Math.floor(Math.random() * colors.length)];
+  };
+
+  const kill = (i: number) => {
+    const j = --count;
+    x[i] = x[j]; y[i] = y[j]; vx[i] = vx[j]; vy[i] = vy[j];
+    life[i] = life[j]; maxLife[i] = maxLife[j]; size[i] = size[j];
+    preset[i] = preset[j]; color[i] = color[j];
+  };
+
+  const update = (dt: number) => {
+    for (let i = 0; i < count; i++) {
+      life[i] -= dt * 1000;
+      if (life[i] <= 0 || y[i] > height + 20 || x[i] < -20 || x[i] > width + 20) { kill(i); i--; continue; }
+      const p = PARTICLE_PRESETS[PRESET_NAMES[preset[i]]];
+      const damping = Math.max(0, 1 - p.drag * dt);
+      vy[i] = (vy[i] + p.gravity * dt) * damping;
+      vx[i] *= damping;
+      x[i] += vx[i] * dt;
+      y[i] += vy[i] * dt;
+    }
+  };
+
+  const draw = () => {
+    ctx.clearRect(0, 0, width, height);
+    for (let c = 0; c < palette.length; c++) {
+      ctx.fillStyle = palette[c];
+      for (let i = 0; i < count; i++) {
+        if (color[i] !== c) continue;
+        const fade = life[i] / maxLife[i];
+        const s = PARTICLE_PRESETS[PRESET_NAMES[preset[i]]].shrink ? Math.max(1, size[i] * fade) : size[i];
+        ctx.globalAlpha = Math.min(1, fade * 1.5);
+        ctx.fillRect(Math.round(x[i] - s / 2), Math.round(y[i] - s / 2), Math.round(s), Math.round(s));
+      }
+    }
+    ctx.globalAlpha = 1;
+  };
+
+  const tick = (time: number) => {
+    // Capped so a frame after a backgrounded tab doesn't teleport everything
+    const dt = last ? Math.min(0.05, (time - last) / 1000) : 1 / 60;
+    last = time;
+    streams.forEach(s => {
+      s.carry += s.perSecond * dt;
+      for (; s.carry >= 1; s.carry--) { const at = s.at(); emit(s.preset, at.x, at.y, 0, 1); }
+    });
+    update(dt);
+    draw();
+    if (count > 0 || streams.size > 0) frame = requestAnimationFrame(tick);
+    else { frame = 0; last = 0; }
+  };
+
+  const wake = () => { if (!frame) frame = requestAnimationFrame(tick); };
+
+  const resize = (w: number, h: number) => {
+    const ratio = window.devicePixelRatio || 1;
+    width = w; height = h;
+    canvas.width = Math.round(w * ratio);
+    canvas.height = Math.round(h * ratio);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.imageSmoothingEnabled = false;
+  };
+
+  return {
+    spawn: (name, px, py, total = PARTICLE_PRESETS[name].count, fill) => {
+      const fixed = fill ? colorIndex(fill) : -1;
+      for (let i = 0; i < total; i++) emit(name, px, py, i, total, fixed);
+      wake();
+    },
+    setPalette,
+    stream: (name, perSecond, at) => {
+      const s = { preset: name, perSecond, at, carry: 0 };
+      streams.add(s);
+      wake();
+      return () => { streams.delete(s); };
+    },
+    resize,
+    clear: () => { count = 0; ctx.clearRect(0, 0, width, height); },
+    destroy: () => { cancelAnimationFrame(frame); frame = 0; streams.clear(); count = 0; },
+    size: () => count,
+  };
+};
@@ -0,0 +1,70 @@
+import { COLORS } from './constants';
+
+// ==========================================
+// 👾 PIXEL ICONS
+// ==========================================
+// 16x16 envelope icons as SVG path data, shared by the <PixelIcon> component and the canvas keepsake.
+// One set per theme (see themes.ts). Every set has five icons, so reply stickers keep their meaning.
+
+export interface PixelIconPath {
+  d: string;
+  fill?: string;
+  stroke?: string;
+}
+
+export const PIXEL_ICON_SIZE = 16;
+
+export const PIXEL_ICONS: PixelIconPath[][] = [
+  // Santa hat
+  [{ d: 'M2 11h12v3H2z', fill: '#fff' }, { d: 'M4 11L8 3L12 11H4', fill: '#c1121f' }, { d: 'M12 9h3v3h-3z', fill: '#fff' }],
+  // Tree
+  [{ d: 'M8 2L3 11h3v3h4v-3h3L8 2z', fill: '#2d6a4f' }, { d: 'M7 14h2v2H7z', fill: '#5C4033' }],
+  // Reindeer
+  [{ d: 'M5 6h6v6H5z', fill: '#8B4513' }, { d: 'M4 3h2v4H4z M10 3h2v4h-2z', fill: '#5D4037' }, { d: 'M7 10h2v2H7z', fill: '#c1121f' }],
+  // Gingerbread
+  [{ d: 'M4 9a4 5 0 1 0 8 0a4 5 0 1 0 -8 0z', fill: '#6F4E37' }, { d: 'M6 6l4 4 M10 6l-4 4', stroke: '#4A3728' }, { d: 'M7 3h2v2H7z', fill: '#4A3728' }],
+  // Present
+  [{ d: 'M3 5h10v8H3z', fill: '#e9c46a' }, { d: 'M7 5h2v8H7z', fill: '#c1121f' }, { d: 'M3 8h10v2H3z', fill: '#c1121f' }],
+];
+
+export const BIRTHDAY_ICONS: PixelIconPath[][] = [
+  // Balloon
+  [{ d: 'M5 2h6v1h1v5h-1v1h-1v1H6V9H5V8H4V3h1z', fill: '#e63946' }, { d: 'M6 3h1v2H6z', fill: '#fff' }, { d: 'M8 10h1v5H8z', fill: '#B8C8D9' }],
+  // Cake slice
+  [{ d: 'M2 8h12v6H2z', fill: '#f4d35e' }, { d: 'M2 7h12v2H2z', fill: '#fff' }, { d: 'M2 11h12v1H2z', fill: '#ff8fb1' }, { d: 'M7 4h2v2H7z', fill: '#e63946' }],
+  // Party hat
+  [{ d: 'M8 2L3 14h10L8 2z', fill: '#4cc9f0' }, { d: 'M6 8h4v1H6z M5 11h6v1H5z', fill: '#f72585' }, { d: 'M7 1h2v2H7z', fill: '#f4d35e' }],
+  // Present
+  [{ d: 'M3 5h10v8H3z', fill: '#9b5de5' }, { d: 'M7 5h2v8H7z M3 8h10v2H3z', fill: '#f4d35e' }],
+  // Candle
+  [{ d: 'M6 6h4v8H6z', fill: '#fff' }, { d: 'M6 8h4v1H6z M6 11h4v1H6z', fill: '#ff8fb1' }, { d: 'M7 2h2v3H7z', fill: '#FFAD66' }],
+];
+
+export const ANNIVERSARY_ICONS: PixelIconPath[][] = [
+  // Heart
+  [{ d: 'M3 4h4v1h2V4h4v1h1v4h-1v1h-1v1h-1v1h-1v1H9v1H7v-1H6v-1H5v-1H4v-1H3V9H2V5h1z', fill: '#e63946' }, { d: 'M4 5h2v2H4z', fill: '#fff' }],
+  // Rose
+  [{ d: 'M5 2h6v5H5z', fill: '#d62246' }, { d: 'M7 3h2v2H7z', fill: '#8b1e3f' }, { d: 'M7 7h2v7H7z M9 9h3v2H9z', fill: '#2d6a4f' }],
+  // Ring
+  [{ d: 'M5 8h6v1H5z M3 9h2v4H3z M11 9h2v4h-2z M5 13h6v1H5z', fill: '#e9c46a' }, { d: 'M6 4h4v1h1v1l-3 2l-3-2V5h1z', fill: '#8BE9FD' }],
+  // Love letter
+  [{ d: 'M2 4h12v9H2z', fill: '#fff' }, { d: 'M2 4l6 5l6-5', stroke: '#d62246' }, { d: 'M7 8h2v2H7z', fill: '#e63946' }],
+  // Champagne
+  [{ d: 'M5 2h6v4h-1v1H6V6H5z', fill: '#f4d35e' }, { d: 'M7 7h2v5H7z M5 12h6v2H5z', fill: '#B8C8D9' }, { d: 'M7 3h1v1H7z M9 4h1v1H9z', fill: '#fff' }],
+];
+
+export const getPixelIcon = (id: number, icons = PIXEL_ICONS): PixelIconPath[] => icons[((id % icons.length) + icons.length) % icons.length];
+
+/** Stand-in for a letter picture that won't load: the envelope's icon on a night sky, as an inline SVG (3:2). */
+export const placeholderImageUrl = (id: number, icons = PIXEL_ICONS, colors: { nightBlue: string; sunsetOrange: string } = COLORS): string => {
+  const icon = getPixelIcon(id, icons)
+    .map(p => `<path d="${p.d}" fill="${p.fill ?? 'none'}"${p.stroke ? ` stroke="${p.stroke}"` : ''}/>`)
+    .join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 48 32" shape-rendering="crispEdges">`
+    + `<rect width="48" height="32" fill="${colors.nightBlue}"/>`
+    + `<path d="M5 5h1v1H5z M40 4h1v1h-1z M43 24h1v1h-1z M8 26h1v1H8z M30 3h1v1h-1z" fill="#fff"/>`
+    + `<g transform="translate(16 6)">${icon}</g>`
+    + `<path d="M21 25h6v1h-6z" fill="${colors.sunsetOrange}"/>`
+    + `</svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
@@ -0,0 +1,56 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, StoryPack } from './types';
+import { clearProgress, loadProgress, saveProgress } from './progress';
+
+// ==========================================
+// 🧪 SAVE DATA TESTS
+// ==========================================
+
+const store = new Map<string, string>();
+(globalThis as any).window = {
+  localStorage: {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+  },
+};
+
+const story = { version: 1, id: 'test', images: {}, envelopes: [{ id: 1 }, { id: 2 }] } as unknown as StoryPack;
+const layout = { 1: { x: 10, y: 20, r: 0, z: 1 }, 2: { x: 30, y: 40, r: 5, z: 2 } };
+const save = (gameState: GameState, readEnvelopes: number[]) =>
+  saveProgress(story, { gameState, readEnvelopes, challenges: {}, challengeResults: {}, envelopeLayout: layout });
+
+describe('progress', () => {
+  beforeEach(() => clearProgress(story.id));
+
+  it('resumes collecting with the letters read so far', () => {
+    save(GameState.COLLECTING, [1]);
+    const progress = loadProgress(story);
+    assert.equal(progress?.gameState, GameState.COLLECTING);
+    assert.deepEqual(progress?.readEnvelopes, [1]);
+  });
+
+  it('restarts later phases at the assembly button', () => {
+    save(GameState.PLACING_STAR, [1, 2]);
+    assert.equal(loadProgress(story)?.gameState, GameState.READY_TO_ASSEMBLE);
+  });
+
+  it('clears the save once the card is completed', () => {
+    save(GameState.COLLECTING, [1]);
+    save(GameState.COMPLETED, [1, 2]);
+    assert.equal(loadProgress(story), null);
+    assert.equal(store.size, 0);
+  });
+
+  it('discards completed saves written before', () => {
+    store.set(`pixel-quest:progress:${story.id}`, JSON.stringify({ version: 2, storyId: story.id, fingerprint: '1,2', savedAt: 0, gameState: GameState.COMPLETED, readEnvelopes: [1, 2], challenges: {}, challengeResults: {}, envelopeLayout: layout }));
+    assert.equal(loadProgress(story), null);
+    assert.equal(store.size, 0);
+  });
+
+  it('discards saves for an edited story', () => {
+    save(GameState.COLLECTING, [1]);
+    assert.equal(loadProgress({ ...story, envelopes: [...story.envelopes, { id: 3 }] } as StoryPack), null);
+  });
+});
@@ -0,0 +1,89 @@
+import { GameState, StoryPack, EnvelopeLayout, ChallengeType } from './types';
+import { ChallengeResult, CHALLENGE_TYPES } from './challenges';
+
+// ==========================================
+// 💾 SAVE DATA
+// ==========================================
+// One save slot per story, kept in localStorage.
+
+export const PROGRESS_VERSION = 2;
+
+export interface SavedProgress {
+  version: number;
+  storyId: string;
+  fingerprint: string; // Envelope ids at save time, detects edited stories
+  savedAt: number;
+  gameState: GameState;
+  readEnvelopes: number[];
+  challenges: Record<number, ChallengeType>; // Assignment, so random snow stays where it was
+  challengeResults: Record<number, ChallengeResult>;
+  envelopeLayout: EnvelopeLayout;
+}
+
+const storageKey = (storyId: string) => `pixel-quest:progress:${storyId}`;
+
+export const getStoryFingerprint = (story: StoryPack): string => story.envelopes.map(e => e.id).join(',');
+
+const isIdList = (v: unknown, known: Set<number>): v is number[] => Array.isArray(v) && v.every(id => known.has(id));
+
+const isIdMap = (v: unknown, known: Set<number>, isValue: (value: any) => boolean): boolean =>
+  typeof v === 'object' && v !== null && Object.entries(v).every(([id, value]) => known.has(Number(id)) && isValue(value));
+
+const isChallengeType = (v: unknown) => CHALLENGE_TYPES.includes(v as ChallengeType);
+const isChallengeResult = (v: any) => v && isChallengeType(v.type) && typeof v.passed === 'boolean' && Number.isInteger(v.attempts);
+
+const readStorage = (key: string): string | null => {
+  try { return window.localStorage.getItem(key); } catch { return null; }
+};
+
+/** Returns the save for this story, or null when there is none or it is stale/corrupt (which also discards it). */
+export const loadProgress = (story: StoryPack): SavedProgress | null => {
+  const raw = readStorage(storageKey(story.id));
+  if (!raw) return null;
+
+  let data: any;
+  try { data = JSON.parse(raw); } catch { data = null; }
+
+  const known = new Set(story.envelopes.map(e => e.id));
+  const isValid = data
+    && data.version === PROGRESS_VERSION
+    && data.storyId === story.id
+    && data.fingerprint === getStoryFingerprint(story)
+    && Object.values(GameState).includes(data.gameState)
+    && data.gameState !== GameState.COMPLETED
+    && isIdList(data.readEnvelopes, known)
+    && isIdMap(data.challenges, known, isChallengeType)
+    && isIdMap(data.challengeResults, known, isChallengeResult)
+    && typeof data.envelopeLayout === 'object' && data.envelopeLayout !== null
+    && story.envelopes.every(e => {
+      const pos = data.envelopeLayout[e.id];
+      return pos && ['x', 'y', 'r', 'z'].every(k => typeof pos[k] === 'number' && Number.isFinite(pos[k]));
+    });
+
+  if (!isValid) {
+    console.warn('[Save] Discarding stale or corrupt progress for', story.id);
+    clearProgress(story.id);
+    return null;
+  }
+
+  // Later phases restart at the assembly button because the GSAP timeline can't be picked up half way
+  const progress = data as SavedProgress;
+  const allRead = new Set(progress.readEnvelopes).size === story.envelopes.length;
+  return { ...progress, gameState: allRead ? GameState.READY_TO_ASSEMBLE : GameState.COLLECTING };
+};
+
+/** Saves the current game; a finished card clears its save, so the next visit starts from the cover. */
+export const saveProgress = (story: StoryPack, progress: Omit<SavedProgress, 'version' | 'storyId' | 'fingerprint' | 'savedAt'>) => {
+  if (progress.gameState === GameState.COMPLETED) { clearProgress(story.id); return; }
+  const data: SavedProgress = { ...progress, version: PROGRESS_VERSION, storyId: story.id, fingerprint: getStoryFingerprint(story), savedAt: Date.now() };
+  try {
+    window.localStorage.setItem(storageKey(story.id), JSON.stringify(data));
+  } catch (e) {
+    // Private mode or quota exceeded: the game still works, it just won't resume
+    console.warn('[Save] Could not save progress', e);
+  }
+};
+
+export const clearProgress = (storyId: string) => {
+  try { window.localStorage.removeItem(storageKey(storyId)); } catch { /* ignore */ }
+};
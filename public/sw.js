@@ -0,0 +1,89 @@
+// ==========================================
+// ✈️ SERVICE WORKER
+// ==========================================
+// Hand-written on purpose: the card only needs three things.
+//   install   precaches the app shell and the hashed build files (precache-manifest.json, written by vite.config.ts)
+//   PRECACHE  message from the page with a story's image URLs, cached one by one (see offline.ts)
+//   fetch     pages and fetch() calls go to the network first, everything else comes from the cache first
+// Bump CACHE_VERSION when this file changes in a way old caches can't handle.
+
+const CACHE_VERSION = 2;
+const CACHE_NAME = `pixel-quest-v${CACHE_VERSION}`;
+// Paths are relative to the worker's scope, so the card works from a sub-path too (Vite's `base`)
+const inScope = path => new URL(path, self.registration.scope).href;
+const SHELL = ['./', 'index.html', 'manifest.webmanifest', 'icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    let built = [];
+    try { built = await (await fetch(inScope('precache-manifest.json'), { cache: 'no-cache' })).json(); } catch { /* Dev server: shell only */ }
+    await cache.addAll([...SHELL, ...built].map(inScope));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('pixel-quest-') && name !== CACHE_NAME).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Images from other hosts usually come without CORS; an opaque response still displays fine offline
+const isCacheable = response => response && (response.ok || response.type === 'opaque');
+
+const precache = async urls => {
+  const cache = await caches.open(CACHE_NAME);
+  const failed = [];
+  await Promise.all(urls.map(async url => {
+    try {
+      if (await cache.match(url)) return;
+      const sameOrigin = new URL(url, self.location.href).origin === self.location.origin;
+      const response = await fetch(new Request(url, { mode: sameOrigin ? 'same-origin' : 'no-cors' }));
+      if (!isCacheable(response)) throw new Error(`HTTP ${response.status}`);
+      await cache.put(url, response);
+    } catch {
+      failed.push(url);
+    }
+  }));
+  return failed;
+};
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'PRECACHE' || !Array.isArray(event.data.urls)) return;
+  const reply = event.ports[0];
+  event.waitUntil(precache(event.data.urls).then(failed => reply?.postMessage({ type: 'PRECACHED', failed })));
+});
+
+const networkFirst = async (request, fallbackUrl) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = (await cache.match(request)) ?? (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const cacheFirst = async request => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request, { ignoreVary: true });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response)) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || !request.url.startsWith('http')) return;
+  if (request.mode === 'navigate') { event.respondWith(networkFirst(request, inScope('index.html'))); return; }
+  // fetch() calls (story packs) want fresh data when online
+  if (request.destination === '') { event.respondWith(networkFirst(request)); return; }
+  event.respondWith(cacheFirst(request));
+});
@@ -0,0 +1,77 @@
+import { StoryPack } from './types';
+import { getStoryFingerprint } from './progress';
+import { PIXEL_ICONS } from './pixelIcons';
+
+// ==========================================
+// 💌 REPLIES
+// ==========================================
+// The recipient can write back under each letter: a few lines and an optional pixel sticker.
+// Replies stay on this device until exported as a file or a #replies= link (see shareLink.ts),
+// which the sender opens on their copy of the card to read the answers.
+
+export const MAX_REPLY_LENGTH = 500;
+export const REPLIES_VERSION = 1;
+
+export interface Reply {
+  id: number; // Envelope id
+  text: string;
+  sticker?: number; // Index into PIXEL_ICONS
+  writtenAt: number;
+}
+
+export interface ReplyBundle {
+  version: number;
+  storyId: string;
+  fingerprint: string; // Envelope ids of the card they answer, see progress.ts
+  replies: Reply[];
+}
+
+const storageKey = (storyId: string) => `pixel-quest:replies:${storyId}`;
+
+const isReply = (v: any): v is Reply =>
+  typeof v === 'object' && v !== null
+  && Number.isInteger(v.id)
+  && typeof v.text === 'string' && v.text.length <= MAX_REPLY_LENGTH
+  && (v.sticker === undefined || (Number.isInteger(v.sticker) && v.sticker >= 0 && v.sticker < PIXEL_ICONS.length))
+  && typeof v.writtenAt === 'number';
+
+/** A bundle read from a file, a link or storage, or null when it isn't one. */
+export const readReplyBundle = (data: any): ReplyBundle | null => {
+  const isValid = data
+    && data.version === REPLIES_VERSION
+    && typeof data.storyId === 'string'
+    && typeof data.fingerprint === 'string'
+    && Array.isArray(data.replies) && data.replies.every(isReply);
+  return isValid ? { version: data.version, storyId: data.storyId, fingerprint: data.fingerprint, replies: data.replies } : null;
+};
+
+/** Whether a bundle answers this story as it is now (same id and envelopes). */
+export const repliesMatchStory = (bundle: ReplyBundle, story: StoryPack) =>
+  bundle.storyId === story.id && bundle.fingerprint === getStoryFingerprint(story);
+
+export const createReplyBundle = (story: StoryPack, replies: Record<number, Reply>): ReplyBundle => ({
+  version: REPLIES_VERSION,
+  storyId: story.id,
+  fingerprint: getStoryFingerprint(story),
+  // In letter order, so files and links read like the card
+  replies: story.envelopes.flatMap(e => (replies[e.id] ? [replies[e.id]] : [])),
+});
+
+export const toRepliesJson = (bundle: ReplyBundle): string => JSON.stringify(bundle, null, 2) + '\n';
+
+/** Replies written on this device for this story, by envelope id. Replies to letters that no longer exist are dropped. */
+export const loadReplies = (story: StoryPack): Record<number, Reply> => {
+  let bundle: ReplyBundle | null = null;
+  try { bundle = readReplyBundle(JSON.parse(window.localStorage.getItem(storageKey(story.id)) ?? 'null')); } catch { /* Nothing saved */ }
+  const known = new Set(story.envelopes.map(e => e.id));
+  const replies: Record<number, Reply> = {};
+  bundle?.replies.forEach(reply => { if (known.has(reply.id)) replies[reply.id] = reply; });
+  return replies;
+};
+
+export const saveReplies = (story: StoryPack, replies: Record<number, Reply>) => {
+  try {
+    if (Object.keys(replies).length === 0) window.localStorage.removeItem(storageKey(story.id));
+    else window.localStorage.setItem(storageKey(story.id), JSON.stringify(createReplyBundle(story, replies)));
+  } catch { /* ignore */ }
+};
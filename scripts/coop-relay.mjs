@@ -0,0 +1,46 @@
+// Co-op relay (see coop.ts): passes every message on to the other player in the same room.
+//   npm run relay                 listens on ws://localhost:8787
+//   PORT=9000 npm run relay
+// Open the card on both devices with ?coop=<room>&relay=ws://<this machine>:8787
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.PORT) || 8787;
+const MAX_PLAYERS = 2;
+const rooms = new Map(); // room -> Set of sockets
+
+const server = new WebSocketServer({ port, maxPayload: 64 * 1024 });
+
+server.on('connection', socket => {
+  let room = null;
+  let player = null; // Last `from` seen, so the others can be told when this socket leaves
+
+  socket.on('message', data => {
+    let message;
+    try { message = JSON.parse(data.toString()); } catch { return; }
+
+    if (room === null) {
+      if (message.type !== 'join' || typeof message.room !== 'string' || message.room === '') { socket.close(1008, 'Send a join message first'); return; }
+      const players = rooms.get(message.room) ?? new Set();
+      if (players.size >= MAX_PLAYERS) { socket.close(1013, 'Room is full'); return; }
+      room = message.room;
+      players.add(socket);
+      rooms.set(room, players);
+      console.log(`[relay] join ${room} (${players.size}/${MAX_PLAYERS})`);
+      return;
+    }
+
+    if (typeof message.from === 'string') player = message.from;
+    rooms.get(room).forEach(other => { if (other !== socket && other.readyState === other.OPEN) other.send(data.toString()); });
+  });
+
+  socket.on('close', () => {
+    if (room === null) return;
+    const players = rooms.get(room);
+    players.delete(socket);
+    if (player) players.forEach(other => other.send(JSON.stringify({ type: 'bye', from: player })));
+    if (players.size === 0) rooms.delete(room);
+    console.log(`[relay] leave ${room} (${players.size}/${MAX_PLAYERS})`);
+  });
+});
+
+server.on('listening', () => console.log(`Co-op relay on ws://localhost:${port}`));
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SecretSpec } from './types';
+import { createSecretMatcher, KONAMI_CODE, validateSecrets } from './secrets';
+
+// ==========================================
+// 🧪 SECRETS TESTS
+// ==========================================
+
+const secret = (id: string, sequence: string[]): SecretSpec => ({ id, sequence, reward: { type: 'message' } });
+const type = (keys: string[], secrets: SecretSpec[]) => {
+  const matcher = createSecretMatcher(secrets);
+  return keys.map(k => matcher.push(k)?.id ?? null);
+};
+
+describe('createSecretMatcher', () => {
+  it('completes the Konami code on its last key', () => {
+    const found = type(KONAMI_CODE, [secret('konami', KONAMI_CODE)]);
+    assert.deepEqual(found, [...KONAMI_CODE.slice(1).map(() => null), 'konami']);
+  });
+
+  it('ignores case for letters but not for key names', () => {
+    assert.deepEqual(type(['G', 'b'], [secret('gb', ['g', 'B'])]), [null, 'gb']);
+    assert.deepEqual(type(['arrowup', 'b'], [secret('up', ['ArrowUp', 'b'])]), [null, null]);
+  });
+
+  it('finds a code that starts inside a broken attempt', () => {
+    assert.deepEqual(type(['a', 'a', 'b'], [secret('ab', ['a', 'b'])]), [null, null, 'ab']);
+  });
+
+  it('tracks overlapping codes at once', () => {
+    const secrets = [secret('long', ['x', 'y', 'z']), secret('short', ['y', 'z', 'z'])];
+    assert.deepEqual(type(['x', 'y', 'z'], secrets), [null, null, 'long']);
+    assert.deepEqual(type(['x', 'y', 'z', 'z'], secrets), [null, null, 'long', null]);
+    assert.deepEqual(type(['x', 'y', 'q', 'y', 'z', 'z'], [secret('short', ['y', 'z', 'z'])]), [null, null, null, null, null, 'short']);
+  });
+
+  it('drops an attempt on a wrong key from some code', () => {
+    assert.deepEqual(type(['a', 'c', 'b'], [secret('ab', ['a', 'b']), secret('cd', ['c', 'd'])]), [null, null, null]);
+  });
+
+  it('starts over after a reset or a completed code', () => {
+    const matcher = createSecretMatcher([secret('ab', ['a', 'b'])]);
+    matcher.push('a');
+    matcher.reset();
+    assert.equal(matcher.push('b'), null);
+    matcher.push('a');
+    assert.equal(matcher.push('b')?.id, 'ab');
+    assert.equal(matcher.push('b'), null);
+  });
+});
+
+describe('validateSecrets', () => {
+  const isValidUrl = (url: unknown) => typeof url === 'string' && url.startsWith('https://');
+
+  it('accepts every reward type', () => {
+    assert.deepEqual(validateSecrets([
+      secret('a', ['a', 'b']),
+      { id: 'b', sequence: ['a', 'c'], reward: { type: 'letter', title: 'P.S.', message: '', imageUrl: 'https://example.com/a.png' } },
+      { id: 'c', sequence: ['a', 'd'], reward: { type: 'palette', palette: 'gameboy' } },
+      { id: 'd', sequence: ['a', 'e'], reward: { type: 'assemble' } },
+    ], isValidUrl), []);
+  });
+
+  it('reports duplicate ids, short sequences and bad rewards', () => {
+    const problems = validateSecrets([
+      secret('a', ['a', 'b']),
+      secret('a', ['a']),
+      { id: 'c', sequence: ['a', 'b'], reward: { type: 'palette', palette: 'sepia' } },
+      { id: 'd', sequence: ['a', 'b'], reward: { type: 'letter', title: ' ', message: 'x', imageUrl: 'ftp://x' } },
+      { id: 'e', sequence: ['a', 'b'], reward: { type: 'confetti' } },
+    ], isValidUrl);
+    assert.equal(problems.length, 6);
+    assert.match(problems[0], /^secrets\[1\]\.id: duplicate/);
+    assert.match(problems[1], /^secrets\[1\]\.sequence/);
+    assert.match(problems[2], /^secrets\[2\]\.reward\.palette: unknown palette "sepia"/);
+    assert.match(problems[3], /^secrets\[3\]\.reward\.title/);
+    assert.match(problems[4], /^secrets\[3\]\.reward\.imageUrl/);
+    assert.match(problems[5], /^secrets\[4\]\.reward\.type: unknown reward "confetti"/);
+  });
+
+  it('rejects anything but an array', () => {
+    assert.deepEqual(validateSecrets({}, isValidUrl), ['secrets: must be an array']);
+  });
+});
@@ -0,0 +1,115 @@
+import { SecretSpec } from './types';
+import { SONGS } from './chiptune';
+
+// ==========================================
+// 🥚 SECRETS
+// ==========================================
+// Easter eggs typed on the keyboard or a controller. A story lists them under `secrets`:
+//   { "id": "konami", "sequence": ["ArrowUp", "ArrowUp", ..., "b", "a"], "reward": { "type": "message" } }
+//   { "id": "bonus", "sequence": ["l", "o", "v", "e"], "reward": { "type": "letter", "title": "P.S.", "message": "..." } }
+//   { "id": "retro", "sequence": ["g", "b"], "reward": { "type": "palette", "palette": "gameboy" } }
+//   { "id": "tune", "sequence": ["m", "u", "s", "i", "c"], "reward": { "type": "music", "song": "STAR" } }
+//   { "id": "skip", "sequence": ["ArrowDown", "ArrowDown", "a"], "reward": { "type": "assemble" } }
+// Found ids are kept per story on this device, so the completed screen can count them.
+
+export const KONAMI_CODE = ['ArrowUp', 'ArrowUp', 'ArrowDown', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'ArrowLeft', 'ArrowRight', 'b', 'a'];
+
+export const DEFAULT_SECRETS: SecretSpec[] = [{ id: 'konami', sequence: KONAMI_CODE, reward: { type: 'message' } }];
+
+export const SECRET_REWARDS = ['message', 'letter', 'palette', 'music', 'assemble'];
+
+// CSS filters applied to the whole page
+export const SECRET_PALETTES: Record<string, string> = {
+  gameboy: 'grayscale(1) sepia(1) hue-rotate(40deg) saturate(2.2) contrast(1.1)',
+  mono: 'grayscale(1) contrast(1.25)',
+  candy: 'hue-rotate(290deg) saturate(1.6)',
+  midnight: 'hue-rotate(180deg) brightness(0.9)',
+};
+
+// Letters compare case-insensitively, so Shift or Caps Lock don't break a code
+const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+export interface SecretMatcher {
+  /** Feeds one key. Returns the secret it completed, if any. */
+  push: (key: string) => SecretSpec | null;
+  reset: () => void;
+}
+
+/**
+ * Tracks every partial match at once, so overlapping codes work ("ab" inside "aab") and a wrong key only
+ * drops the attempts it broke. Keys that appear in no code are ignored rather than resetting progress.
+ */
+export const createSecretMatcher = (secrets: SecretSpec[]): SecretMatcher => {
+  const codes = secrets.map(s => s.sequence.map(normalizeKey));
+  const alphabet = new Set(codes.flat());
+  let partial: { secret: number; next: number }[] = [];
+
+  return {
+    push: key => {
+      const k = normalizeKey(key);
+      if (!alphabet.has(k)) return null;
+      const advanced = partial.filter(p => codes[p.secret][p.next] === k).map(p => ({ ...p, next: p.next + 1 }));
+      codes.forEach((code, secret) => { if (code[0] === k) advanced.push({ secret, next: 1 }); });
+      const done = advanced.find(p => p.next === codes[p.secret].length);
+      partial = done ? [] : advanced;
+      return done ? secrets[done.secret] : null;
+    },
+    reset: () => { partial = []; },
+  };
+};
+
+/** Problems with a story's secrets (duplicate ids, empty sequences, unknown rewards). `isValidUrl` checks bonus letter images. */
+export const validateSecrets = (secrets: any, isValidUrl: (url: unknown) => boolean): string[] => {
+  if (!Array.isArray(secrets)) return ['secrets: must be an array'];
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  secrets.forEach((secret: any, i: number) => {
+    const path = `secrets[${i}]`;
+    if (typeof secret !== 'object' || secret === null) { problems.push(`${path}: must be an object`); return; }
+    if (typeof secret.id !== 'string' || secret.id.trim() === '') problems.push(`${path}.id: must be a non-empty string`);
+    else if (ids.has(secret.id)) problems.push(`${path}.id: duplicate id ${JSON.stringify(secret.id)}`);
+    else ids.add(secret.id);
+    if (!Array.isArray(secret.sequence) || secret.sequence.length < 2 || !secret.sequence.every((k: unknown) => typeof k === 'string' && k !== '')) {
+      problems.push(`${path}.sequence: must list at least two key names`);
+    }
+    ['title', 'message'].forEach(key => { if (secret[key] !== undefined && typeof secret[key] !== 'string') problems.push(`${path}.${key}: must be a string`); });
+
+    const reward = secret.reward;
+    const at = `${path}.reward`;
+    if (typeof reward !== 'object' || reward === null) { problems.push(`${at}: must be an object with a type`); return; }
+    switch (reward.type) {
+      case 'message':
+      case 'assemble':
+        break;
+      case 'letter':
+        if (typeof reward.title !== 'string' || reward.title.trim() === '') problems.push(`${at}.title: must be a non-empty string`);
+        if (typeof reward.message !== 'string') problems.push(`${at}.message: must be a string`);
+        if (reward.imageUrl !== undefined && !isValidUrl(reward.imageUrl)) problems.push(`${at}.imageUrl: bad URL ${JSON.stringify(reward.imageUrl)}`);
+        break;
+      case 'palette':
+        if (!(reward.palette in SECRET_PALETTES)) problems.push(`${at}.palette: unknown palette ${JSON.stringify(reward.palette)} (${Object.keys(SECRET_PALETTES).join(', ')})`);
+        break;
+      case 'music':
+        if (!(reward.song in SONGS)) problems.push(`${at}.song: unknown song ${JSON.stringify(reward.song)} (${Object.keys(SONGS).join(', ')})`);
+        break;
+      default:
+        problems.push(`${at}.type: unknown reward ${JSON.stringify(reward.type)} (${SECRET_REWARDS.join(', ')})`);
+    }
+  });
+  return problems;
+};
+
+const storageKey = (storyId: string) => `pixel-quest:secrets:${storyId}`;
+
+export const loadFoundSecrets = (storyId: string): string[] => {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey(storyId)) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveFoundSecrets = (storyId: string, ids: string[]) => {
+  try { window.localStorage.setItem(storageKey(storyId), JSON.stringify(ids)); } catch { /* ignore */ }
+};
@@ -0,0 +1,199 @@
+import { StoryPack } from './types';
+import { validateStoryPack } from './story';
+import { ReplyBundle, readReplyBundle } from './replies';
+import { getBodyImages } from './letterBody';
+
+// ==========================================
+// 🔗 SHARE LINKS
+// ==========================================
+// A whole story pack packed into the URL hash: #card=<payload>
+//
+// Payload: "1z.<data>"               deflate-compressed JSON, base64url
+//          "1e.<salt>.<iv>.<data>"   the same, AES-GCM encrypted with a passphrase
+// The hash never reaches a server, so the letters stay between sender and recipient.
+// Answers travel back the same way, unencrypted: #replies=1z.<data> (see replies.ts).
+
+const LINK_PARAM = 'card';
+const REPLIES_PARAM = 'replies';
+const FORMAT_VERSION = '1';
+
+export const MAX_LINK_PAYLOAD = 16_000; // Characters; longer links get cut off by chat apps
+export const MAX_DECODED_BYTES = 256 * 1024; // Guards against decompression bombs
+export const MAX_INLINE_IMAGE = 12 * 1024; // Characters per data: image
+
+const PBKDF2_ITERATIONS = 150_000;
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export class WrongPassphraseError extends ShareLinkError {
+  constructor() {
+    super('Wrong passphrase.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+export interface ParsedShareLink {
+  encrypted: boolean;
+  payload: string;
+}
+
+// --- base64url ---
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new ShareLinkError('The link contains characters that do not belong there. Was it copied completely?');
+  const padded = text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - text.length % 4) % 4);
+  try {
+    return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+  } catch {
+    throw new ShareLinkError('The link is damaged. Was it copied completely?');
+  }
+};
+
+// --- compression ---
+const pipeBytes = async (bytes: Uint8Array, stream: GenericTransformStream, limit = Infinity): Promise<Uint8Array> => {
+  const reader = new Blob([bytes as BlobPart]).stream().pipeThrough(stream).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) { reader.cancel(); throw new ShareLinkError('This card is too big to open.'); }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(c => { out.set(c, offset); offset += c.length; });
+  return out;
+};
+
+const compress = (bytes: Uint8Array) => pipeBytes(bytes, new CompressionStream('deflate-raw'));
+
+const decompress = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  try {
+    return await pipeBytes(bytes, new DecompressionStream('deflate-raw'), MAX_DECODED_BYTES);
+  } catch (e) {
+    if (e instanceof ShareLinkError) throw e;
+    throw new ShareLinkError('The link is damaged. Was it copied completely?');
+  }
+};
+
+// --- encryption ---
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
+  );
+};
+
+const checkLinkable = (story: StoryPack) => {
+  const images = [
+    story.images.cover, story.images.game, story.images.yearReview, ...Object.values(story.images.fallbacks ?? {}).flat(),
+    ...story.envelopes.flatMap(e => [e.imageUrl, ...(e.imageFallbacks ?? []), e.iconUrl ?? '', ...getBodyImages(e.body).map(img => img.url)]),
+    ...(story.secrets ?? []).map(s => (s.reward.type === 'letter' ? s.reward.imageUrl ?? '' : '')),
+  ];
+  const tooBig = images.filter(url => url.startsWith('data:') && url.length > MAX_INLINE_IMAGE);
+  if (tooBig.length > 0) {
+    throw new ShareLinkError(`${tooBig.length} inline image(s) are larger than ${Math.round(MAX_INLINE_IMAGE / 1024)}KB. Host them somewhere and use the URL instead.`);
+  }
+};
+
+/** Packs a story into a link. Throws a ShareLinkError when the result would be too long to share. */
+export const createShareLink = async (story: StoryPack, { passphrase, baseUrl = window.location.origin + window.location.pathname }: { passphrase?: string; baseUrl?: string } = {}): Promise<string> => {
+  checkLinkable(validateStoryPack(story));
+  const packed = await compress(new TextEncoder().encode(JSON.stringify(story)));
+
+  let payload: string;
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, packed as BufferSource));
+    payload = `${FORMAT_VERSION}e.${toBase64Url(salt)}.${toBase64Url(iv)}.${toBase64Url(cipher)}`;
+  } else {
+    payload = `${FORMAT_VERSION}z.${toBase64Url(packed)}`;
+  }
+
+  if (payload.length > MAX_LINK_PAYLOAD) {
+    throw new ShareLinkError(`The link would be ${payload.length} characters long (limit ${MAX_LINK_PAYLOAD}). Shorten the letters or replace inline images with URLs.`);
+  }
+  return `${baseUrl}#${LINK_PARAM}=${payload}`;
+};
+
+/** Reads the card from a location hash. Returns null when the URL holds no card. */
+export const parseShareLink = (hash: string): ParsedShareLink | null => {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(LINK_PARAM);
+  if (payload === null) return null;
+  if (payload.length > MAX_LINK_PAYLOAD) throw new ShareLinkError('This link is longer than any card we make. It may have been tampered with.');
+  if (payload.startsWith(`${FORMAT_VERSION}z.`)) return { encrypted: false, payload };
+  if (payload.startsWith(`${FORMAT_VERSION}e.`)) return { encrypted: true, payload };
+  throw new ShareLinkError('This link was made by a different version of the card, or it is incomplete.');
+};
+
+/** Unpacks a parsed link. Wrong passphrases throw a ShareLinkError. */
+export const decodeShareLink = async (link: ParsedShareLink, passphrase?: string): Promise<StoryPack> => {
+  const parts = link.payload.slice(FORMAT_VERSION.length + 2).split('.');
+  let packed: Uint8Array;
+  if (link.encrypted) {
+    if (parts.length !== 3) throw new ShareLinkError('The link is damaged. Was it copied completely?');
+    if (!passphrase) throw new ShareLinkError('This card is protected. Enter the passphrase to open it.');
+    const [salt, iv, cipher] = parts.map(fromBase64Url);
+    try {
+      const key = await deriveKey(passphrase, salt);
+      packed = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key, cipher as BufferSource));
+    } catch {
+      throw new WrongPassphraseError();
+    }
+  } else {
+    if (parts.length !== 1) throw new ShareLinkError('The link is damaged. Was it copied completely?');
+    packed = fromBase64Url(parts[0]);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(await decompress(packed)));
+  } catch (e) {
+    if (e instanceof ShareLinkError) throw e;
+    throw new ShareLinkError('The link is damaged. Was it copied completely?');
+  }
+  const story = validateStoryPack(data);
+  checkLinkable(story);
+  return story;
+};
+
+/** Packs reply letters into a link to this card. Throws a ShareLinkError when it would be too long. */
+export const createRepliesLink = async (bundle: ReplyBundle, baseUrl = window.location.origin + window.location.pathname + window.location.search): Promise<string> => {
+  const payload = `${FORMAT_VERSION}z.${toBase64Url(await compress(new TextEncoder().encode(JSON.stringify(bundle))))}`;
+  if (payload.length > MAX_LINK_PAYLOAD) {
+    throw new ShareLinkError(`The link would be ${payload.length} characters long (limit ${MAX_LINK_PAYLOAD}). Save the replies as a file instead.`);
+  }
+  return `${baseUrl}#${REPLIES_PARAM}=${payload}`;
+};
+
+/** Reads reply letters from a location hash. Resolves to null when the URL holds none. */
+export const readRepliesLink = async (hash: string): Promise<ReplyBundle | null> => {
+  const payload = new URLSearchParams(hash.replace(/^#/, '')).get(REPLIES_PARAM);
+  if (payload === null) return null;
+  if (payload.length > MAX_LINK_PAYLOAD || !payload.startsWith(`${FORMAT_VERSION}z.`)) throw new ShareLinkError('This replies link was made by a different version of the card, or it is incomplete.');
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(await decompress(fromBase64Url(payload.slice(FORMAT_VERSION.length + 2)))));
+  } catch (e) {
+    if (e instanceof ShareLinkError) throw e;
+    throw new ShareLinkError('The link is damaged. Was it copied completely?');
+  }
+  const bundle = readReplyBundle(data);
+  if (!bundle) throw new ShareLinkError('The link is damaged. Was it copied completely?');
+  return bundle;
+};
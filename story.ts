@@ -0,0 +1,258 @@
+/// <reference types="vite/client" />
+import { StoryPack, EnvelopeData, TreeCoordinate, StoryImageKey } from './types';
+import { ENVELOPES, TREE_COORDINATES, COVER_BG_IMAGE, GAME_BG_IMAGE, YEAR_REVIEW_IMAGE } from './constants';
+import { MIN_TREE_ENVELOPES, MAX_TREE_ENVELOPES, hasSlotsForShape } from './treeLayout';
+import { parseLocalDate, validateUnlockRules } from './unlockRules';
+import { validateChallenge } from './challenges';
+import { validateSecrets } from './secrets';
+import { getTranslationWarnings, validateTranslations } from './i18n';
+import { AssetRequest, AssetReport } from './assets';
+import { getBodyImages, mapBodyUrls, validateLetterBody } from './letterBody';
+import { placeholderImageUrl } from './pixelIcons';
+import { validateMarkup } from './letterMarkup';
+import { resolveTheme, THEME_SHAPES, validateTheme } from './themes';
+
+// ==========================================
+// 📦 STORY PACKS
+// ==========================================
+// ?story=<id>   -> a pack bundled with the build (constants.ts or stories/*.json)
+// ?story=<url>  -> a pack fetched at startup (must be served with CORS)
+// no parameter  -> DEFAULT_STORY
+
+export const STORY_PACK_VERSION = 1;
+
+export const DEFAULT_STORY: StoryPack = {
+  version: STORY_PACK_VERSION,
+  id: 'christmas-2025',
+  title: 'Pixel Christmas Quest',
+  images: { cover: COVER_BG_IMAGE, game: GAME_BG_IMAGE, yearReview: YEAR_REVIEW_IMAGE },
+  envelopes: ENVELOPES,
+  tree: TREE_COORDINATES,
+};
+
+export class StoryPackError extends Error {
+  problems: string[];
+  constructor(problems: string[]) {
+    super(`Invalid story pack:\n${problems.join('\n')}`);
+    this.name = 'StoryPackError';
+    this.problems = problems;
+  }
+}
+
+export const STORY_IMAGE_KEYS: readonly StoryImageKey[] = ['cover', 'game', 'yearReview'];
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Absolute http(s), root/relative paths and inline images are allowed
+export const isValidAssetUrl = (url: unknown): boolean => {
+  if (typeof url !== 'string' || url.trim() === '') return false;
+  if (/^data:image\//.test(url)) return true;
+  if (/^\.{0,2}\//.test(url)) return true;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+const validateFallbacks = (urls: unknown, path: string, problems: string[]) => {
+  if (!Array.isArray(urls)) { problems.push(`${path}: must be an array of URLs`); return; }
+  urls.forEach((url, i) => { if (!isValidAssetUrl(url)) problems.push(`${path}[${i}]: bad URL ${JSON.stringify(url)}`); });
+};
+
+const validateEnvelope = (env: unknown, path: string, problems: string[]): env is EnvelopeData => {
+  if (!isObject(env)) { problems.push(`${path}: must be an object`); return false; }
+  const before = problems.length;
+  if (!Number.isInteger(env.id) || env.id < 1) problems.push(`${path}.id: must be a positive integer`);
+  if (typeof env.title !== 'string' || env.title.trim() === '') problems.push(`${path}.title: must be a non-empty string`);
+  if (typeof env.message !== 'string') problems.push(`${path}.message: must be a string`);
+  problems.push(...validateMarkup(env.message, `${path}.message`));
+  if (!isValidAssetUrl(env.imageUrl)) problems.push(`${path}.imageUrl: bad URL ${JSON.stringify(env.imageUrl)}`);
+  if (env.imageFallbacks !== undefined) validateFallbacks(env.imageFallbacks, `${path}.imageFallbacks`, problems);
+  if (env.iconUrl !== undefined && !isValidAssetUrl(env.iconUrl)) problems.push(`${path}.iconUrl: bad URL ${JSON.stringify(env.iconUrl)}`);
+  if (env.body !== undefined) problems.push(...validateLetterBody(env.body, `${path}.body`, isValidAssetUrl));
+  if (env.translations !== undefined) {
+    problems.push(...validateTranslations(env.translations, `${path}.translations`));
+    if (isObject(env.translations)) Object.entries(env.translations).forEach(([locale, variant]: [string, any]) => {
+      problems.push(...validateMarkup(variant?.message, `${path}.translations.${locale}.message`));
+      if (Array.isArray(variant?.body)) problems.push(...validateLetterBody(variant.body, `${path}.translations.${locale}.body`, isValidAssetUrl));
+    });
+  }
+  if (env.challenge !== undefined) problems.push(...validateChallenge(env.challenge, `${path}.challenge`));
+  if (env.unlockDate !== undefined && (typeof env.unlockDate !== 'string' || !parseLocalDate(env.unlockDate))) problems.push(`${path}.unlockDate: ${JSON.stringify(env.unlockDate)} is not a YYYY-MM-DD date`);
+  if (typeof env.scale !== 'number' || !Number.isFinite(env.scale) || env.scale <= 0) problems.push(`${path}.scale: must be a positive number`);
+  return problems.length === before;
+};
+
+/** Things in a valid pack that probably aren't what the author meant. Shown in the editor and logged on load. */
+export const getStoryWarnings = (story: StoryPack): string[] =>
+  story.envelopes.flatMap((env, i) => getTranslationWarnings(env, `envelopes[${i}]`));
+
+const validateCoordinate = (coord: unknown, path: string, problems: string[]): coord is TreeCoordinate => {
+  if (!isObject(coord)) { problems.push(`${path}: must be an object`); return false; }
+  const before = problems.length;
+  if (!Number.isInteger(coord.id)) problems.push(`${path}.id: must be an integer`);
+  ['x', 'y'].forEach(axis => {
+    const v = coord[axis];
+    if (typeof v !== 'number' || v < 0 || v > 100) problems.push(`${path}.${axis}: must be a percentage between 0 and 100`);
+  });
+  return problems.length === before;
+};
+
+/** Checks an untrusted value against the StoryPack shape. Throws a StoryPackError listing every problem found. */
+export const validateStoryPack = (input: unknown): StoryPack => {
+  const problems: string[] = [];
+  if (!isObject(input)) throw new StoryPackError(['Story pack must be a JSON object']);
+
+  if (input.version !== STORY_PACK_VERSION) problems.push(`version: expected ${STORY_PACK_VERSION}, got ${JSON.stringify(input.version)}`);
+  if (typeof input.id !== 'string' || input.id.trim() === '') problems.push('id: must be a non-empty string');
+  if (input.title !== undefined && typeof input.title !== 'string') problems.push('title: must be a string');
+
+  if (!isObject(input.images)) {
+    problems.push('images: must be an object with cover, game and yearReview');
+  } else {
+    STORY_IMAGE_KEYS.forEach(key => {
+      if (!isValidAssetUrl(input.images[key])) problems.push(`images.${key}: bad URL ${JSON.stringify(input.images[key])}`);
+    });
+    const fallbacks = input.images.fallbacks;
+    if (fallbacks !== undefined) {
+      if (!isObject(fallbacks)) problems.push('images.fallbacks: must be an object of URL lists');
+      else Object.entries(fallbacks).forEach(([key, urls]) => {
+        if (!(STORY_IMAGE_KEYS as readonly string[]).includes(key)) problems.push(`images.fallbacks.${key}: unknown image, expected one of ${STORY_IMAGE_KEYS.join(', ')}`);
+        else validateFallbacks(urls, `images.fallbacks.${key}`, problems);
+      });
+    }
+  }
+
+  const envelopeIds = new Set<number>();
+  const validEnvelopes: EnvelopeData[] = [];
+  if (!Array.isArray(input.envelopes) || input.envelopes.length === 0) {
+    problems.push('envelopes: must be a non-empty array');
+  } else {
+    input.envelopes.forEach((env: unknown, i: number) => {
+      if (!validateEnvelope(env, `envelopes[${i}]`, problems)) return;
+      if (envelopeIds.has(env.id)) problems.push(`envelopes[${i}].id: duplicate id ${env.id}`);
+      envelopeIds.add(env.id);
+      validEnvelopes.push(env);
+    });
+  }
+
+  if (input.treeShape !== undefined && !THEME_SHAPES.includes(input.treeShape)) problems.push(`treeShape: must be one of ${THEME_SHAPES.join(', ')}`);
+  // Slots placed for another shape are ignored, so the theme's shape is generated instead
+  const shape = input.theme !== undefined && validateTheme(input.theme).length === 0 ? resolveTheme(input as StoryPack).shape : 'tree';
+  if (!hasSlotsForShape(input, shape)) {
+    const count = envelopeIds.size;
+    if (count > 0 && (count < MIN_TREE_ENVELOPES || count > MAX_TREE_ENVELOPES)) {
+      problems.push(`tree: a ${shape} can only be generated for ${MIN_TREE_ENVELOPES}-${MAX_TREE_ENVELOPES} envelopes (got ${count}), add hand-placed slots for it`);
+    }
+  }
+  if (input.tree !== undefined && !Array.isArray(input.tree)) {
+    problems.push('tree: must be an array of slots');
+  } else if (input.tree !== undefined) {
+    const slotIds = new Set<number>();
+    input.tree.forEach((coord: unknown, i: number) => {
+      if (!validateCoordinate(coord, `tree[${i}]`, problems)) return;
+      if (slotIds.has(coord.id)) problems.push(`tree[${i}].id: duplicate slot for envelope ${coord.id}`);
+      else if (!envelopeIds.has(coord.id)) problems.push(`tree[${i}].id: no envelope with id ${coord.id}`);
+      slotIds.add(coord.id);
+    });
+    envelopeIds.forEach(id => { if (!slotIds.has(id)) problems.push(`tree: missing slot for envelope ${id}`); });
+  }
+
+  if (input.unlock !== undefined) problems.push(...validateUnlockRules(input.unlock, validEnvelopes));
+  if (input.secrets !== undefined) problems.push(...validateSecrets(input.secrets, isValidAssetUrl));
+  if (input.theme !== undefined) problems.push(...validateTheme(input.theme));
+
+  if (problems.length > 0) throw new StoryPackError(problems);
+  return input as unknown as StoryPack;
+};
+
+const bundledFiles = import.meta.glob('./stories/*.json', { eager: true, import: 'default' });
+
+// Images in stories/assets/ are bundled with the build (and so work offline); packs refer to them as "./assets/<file>"
+const bundledAssets = import.meta.glob('./stories/assets/*', { eager: true, as: 'url' });
+
+const resolveBundledAsset = (url: string): string => bundledAssets[`./stories/${url.replace(/^\.\//, '')}`] ?? url;
+
+const resolveBundledList = (urls?: string[]) => urls?.map(resolveBundledAsset);
+
+const withBundledAssets = (story: StoryPack): StoryPack => ({
+  ...story,
+  images: {
+    cover: resolveBundledAsset(story.images.cover), game: resolveBundledAsset(story.images.game), yearReview: resolveBundledAsset(story.images.yearReview),
+    ...(story.images.fallbacks ? { fallbacks: Object.fromEntries(Object.entries(story.images.fallbacks).map(([key, urls]) => [key, resolveBundledList(urls)])) } : {}),
+  },
+  envelopes: story.envelopes.map(e => ({
+    ...e,
+    imageUrl: resolveBundledAsset(e.imageUrl),
+    ...(e.imageFallbacks ? { imageFallbacks: resolveBundledList(e.imageFallbacks) } : {}),
+    ...(e.iconUrl ? { iconUrl: resolveBundledAsset(e.iconUrl) } : {}),
+    ...(e.body ? { body: mapBodyUrls(e.body, resolveBundledAsset) } : {}),
+    ...(e.translations ? { translations: Object.fromEntries(Object.entries(e.translations).map(([locale, v]) => [locale, v.body ? { ...v, body: mapBodyUrls(v.body, resolveBundledAsset) } : v])) } : {}),
+  })),
+});
+
+export const BUNDLED_STORIES: Record<string, unknown> = Object.values(bundledFiles).reduce<Record<string, unknown>>(
+  (acc, pack) => { if (isObject(pack) && typeof pack.id === 'string') acc[pack.id] = pack; return acc; },
+  { [DEFAULT_STORY.id]: DEFAULT_STORY }
+);
+
+const fetchStoryPack = async (url: string): Promise<unknown> => {
+  let res: Response;
+  try {
+    res = await fetch(url, { cache: 'no-cache' });
+  } catch {
+    throw new StoryPackError([`Could not reach ${url}`]);
+  }
+  if (!res.ok) throw new StoryPackError([`Could not load ${url} (HTTP ${res.status})`]);
+  try {
+    return await res.json();
+  } catch {
+    throw new StoryPackError([`${url} is not valid JSON`]);
+  }
+};
+
+/** Resolves the story pack selected by the page URL. */
+export const loadStoryPack = async (search = window.location.search): Promise<StoryPack> => {
+  const source = new URLSearchParams(search).get('story');
+  if (!source) return withBundledAssets(validateStoryPack(DEFAULT_STORY));
+
+  if (Object.prototype.hasOwnProperty.call(BUNDLED_STORIES, source)) return withBundledAssets(validateStoryPack(BUNDLED_STORIES[source]));
+  if (!source.includes('/') && !source.endsWith('.json')) {
+    throw new StoryPackError([`Unknown story "${source}". Bundled stories: ${Object.keys(BUNDLED_STORIES).join(', ')}`]);
+  }
+  if (!isValidAssetUrl(source)) throw new StoryPackError([`story: bad URL ${JSON.stringify(source)}`]);
+  return validateStoryPack(await fetchStoryPack(source));
+};
+
+/**
+ * Every image a story needs before the game can start, each with its fallbacks. Keys match the pack's field paths.
+ * Pictures in letter bodies are included; audio and video stream when played.
+ */
+export const getStoryAssets = (story: StoryPack): AssetRequest[] => [
+  ...STORY_IMAGE_KEYS.map(key => ({ key: `images.${key}`, urls: [story.images[key], ...(story.images.fallbacks?.[key] ?? [])] })),
+  ...story.envelopes.flatMap((e, i) => [
+    { key: `envelopes[${i}].imageUrl`, urls: [e.imageUrl, ...(e.imageFallbacks ?? [])] },
+    ...getBodyImages(e.body).map(img => ({ key: `envelopes[${i}].body${img.path}`, urls: [img.url] })),
+  ]),
+];
+
+/** Points the story at the URLs that actually loaded. Letters whose pictures all failed get pixel placeholder art. */
+export const applyAssetReport = (story: StoryPack, report: AssetReport): StoryPack => {
+  const loaded = new Map(report.outcomes.map(o => [o.key, o.url]));
+  const image = (key: StoryImageKey) => loaded.get(`images.${key}`) ?? story.images[key];
+  const { icons, palette } = resolveTheme(story);
+  return {
+    ...story,
+    images: { ...story.images, cover: image('cover'), game: image('game'), yearReview: image('yearReview') },
+    envelopes: story.envelopes.map((e, i) => {
+      const pick = (key: string, url: string) => (loaded.has(key) ? loaded.get(key) ?? placeholderImageUrl(e.id, icons, palette) : url);
+      return {
+        ...e,
+        imageUrl: pick(`envelopes[${i}].imageUrl`, e.imageUrl),
+        ...(e.body ? { body: mapBodyUrls(e.body, (url, path, kind) => (kind === 'image' ? pick(`envelopes[${i}].body${path}`, url) : url)) } : {}),
+      };
+    }),
+  };
+};
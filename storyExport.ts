@@ -0,0 +1,63 @@
+import { StoryPack } from './types';
+
+// ==========================================
+// 📤 STORY EXPORT
+// ==========================================
+
+export const toStoryJson = (story: StoryPack): string => JSON.stringify(story, null, 2) + '\n';
+
+const str = (v: string) => JSON.stringify(v);
+
+/** Renders the story in the same shape as constants.ts, ready to paste over its image, ENVELOPES and TREE_COORDINATES sections. */
+export const toConstantsSnippet = (story: StoryPack): string => {
+  const envelopes = story.envelopes.map(e => [
+    '  {',
+    `    id: ${e.id},`,
+    `    title: ${str(e.title)},`,
+    `    message: ${str(e.message)},`,
+    `    imageUrl: ${str(e.imageUrl)},`,
+    ...(e.imageFallbacks ? [`    imageFallbacks: ${JSON.stringify(e.imageFallbacks)},`] : []),
+    ...(e.iconUrl ? [`    iconUrl: ${str(e.iconUrl)},`] : []),
+    ...(e.body ? [`    body: ${JSON.stringify(e.body)},`] : []),
+    ...(e.unlockDate ? [`    unlockDate: ${str(e.unlockDate)},`] : []),
+    ...(e.challenge ? [`    challenge: ${JSON.stringify(e.challenge)},`] : []),
+    ...(e.translations ? [`    translations: ${JSON.stringify(e.translations)},`] : []),
+    `    scale: ${e.scale}`,
+    '  },',
+  ].join('\n')).join('\n');
+
+  const tree = story.tree
+    ? [
+        ...(story.treeShape && story.treeShape !== 'tree' ? [`// Placed for the ${story.treeShape} shape (add treeShape: ${str(story.treeShape)} to DEFAULT_STORY in story.ts)`] : []),
+        `export const TREE_COORDINATES: TreeCoordinate[] = [\n${story.tree.map(t => `  { id: ${t.id}, x: ${t.x}, y: ${t.y} },`).join('\n')}\n];`,
+      ].join('\n')
+    : '// No hand-placed tree: the layout is generated (remove TREE_COORDINATES from DEFAULT_STORY in story.ts)\nexport const TREE_COORDINATES: TreeCoordinate[] = [];';
+
+  return [
+    `export const COVER_BG_IMAGE = ${str(story.images.cover)};`,
+    `export const GAME_BG_IMAGE = ${str(story.images.game)};`,
+    `export const YEAR_REVIEW_IMAGE = ${str(story.images.yearReview)};`,
+    ...(story.images.fallbacks ? [`// Fallbacks for these images (add to DEFAULT_STORY.images in story.ts): fallbacks: ${JSON.stringify(story.images.fallbacks)}`] : []),
+    '',
+    `export const ENVELOPES: EnvelopeData[] = [\n${envelopes}\n];`,
+    '',
+    tree,
+    '',
+  ].join('\n');
+};
+
+/** Saves text as a file through a temporary link. */
+export const downloadText = (filename: string, text: string, type = 'application/json') => {
+  downloadBlob(filename, new Blob([text], { type }));
+};
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
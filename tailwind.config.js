@@ -0,0 +1,12 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  // Class names are only looked up in these files, so keep them written out in full
+  content: ['./index.html', './*.{ts,tsx}'],
+  theme: {
+    extend: {
+      // The theme's palette.sunsetOrange, set on each screen's root (sunsetVar in App.tsx)
+      colors: { sunset: 'var(--sunset-orange)' },
+    },
+  },
+  plugins: [],
+};
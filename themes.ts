@@ -0,0 +1,113 @@
+import { StoryPack, ThemeAmbience, ThemeShape } from './types';
+import { COLORS } from './constants';
+import { ANNIVERSARY_ICONS, BIRTHDAY_ICONS, PIXEL_ICONS, PixelIconPath } from './pixelIcons';
+import { MessageKey } from './i18n';
+
+// ==========================================
+// 🎁 THEMES
+// ==========================================
+// The occasion a card is dressed for: colors, what the envelopes assemble into, what goes on top,
+// the envelope icons, what falls across the screen and the cover and banner wording.
+// "theme": "birthday" picks a built-in one; an object starts from one and overrides some parts:
+//   { "base": "anniversary", "palette": { "nightBlue": "#101020" }, "banner": ["Happy 10th,", "My Player 2!"] }
+
+// Color roles, named after the Christmas palette they came from (see COLORS):
+// sunsetOrange accent, deepPineGreen panels, scarfRed second accent, snowShadow muted text,
+// nightBlue background, cream paper, wood envelope borders
+export type Palette = typeof COLORS;
+
+export const THEME_SHAPES: ThemeShape[] = ['tree', 'heart', 'cake'];
+export const THEME_AMBIENCES: ThemeAmbience[] = ['snow', 'petals', 'confetti'];
+
+export interface Theme {
+  id: string;
+  palette: Palette;
+  shape: ThemeShape;
+  topper: string; // Emoji dragged to the top at the end
+  icons: PixelIconPath[][]; // Envelope icons, five like PIXEL_ICONS
+  ambience: ThemeAmbience;
+  messages: { cover: MessageKey; banner1: MessageKey; banner2: MessageKey }; // Built-in wording, translated
+  cover?: string; // The author's own wording, shown instead of `messages`
+  banner?: string[];
+}
+
+export const BUILT_IN_THEMES: Record<string, Theme> = {
+  christmas: {
+    id: 'christmas',
+    palette: COLORS,
+    shape: 'tree',
+    topper: '⭐',
+    icons: PIXEL_ICONS,
+    ambience: 'snow',
+    messages: { cover: 'cover.text', banner1: 'completed.banner1', banner2: 'completed.banner2' },
+  },
+  birthday: {
+    id: 'birthday',
+    palette: { sunsetOrange: '#FFD166', deepPineGreen: '#7B2CBF', scarfRed: '#EF476F', snowShadow: '#CDB4DB', nightBlue: '#22163A', cream: '#FFF8E7', wood: '#6A4C93' },
+    shape: 'cake',
+    topper: '🕯️',
+    icons: BIRTHDAY_ICONS,
+    ambience: 'confetti',
+    messages: { cover: 'theme.birthday.cover', banner1: 'theme.birthday.banner1', banner2: 'theme.birthday.banner2' },
+  },
+  anniversary: {
+    id: 'anniversary',
+    palette: { sunsetOrange: '#FF8FA3', deepPineGreen: '#8E2F4F', scarfRed: '#D62246', snowShadow: '#F2C6D0', nightBlue: '#2A1420', cream: '#FFF5F7', wood: '#7A3B4E' },
+    shape: 'heart',
+    topper: '💍',
+    icons: ANNIVERSARY_ICONS,
+    ambience: 'petals',
+    messages: { cover: 'theme.anniversary.cover', banner1: 'theme.anniversary.banner1', banner2: 'theme.anniversary.banner2' },
+  },
+};
+
+export const DEFAULT_THEME = BUILT_IN_THEMES.christmas;
+
+/** The theme a story asked for. Assumes a validated story, unknown ids fall back to Christmas. */
+export const resolveTheme = (story: Pick<StoryPack, 'theme'>): Theme => {
+  const spec = story.theme;
+  if (spec === undefined) return DEFAULT_THEME;
+  if (typeof spec === 'string') return BUILT_IN_THEMES[spec] ?? DEFAULT_THEME;
+  const base = BUILT_IN_THEMES[spec.base] ?? DEFAULT_THEME;
+  return {
+    ...base,
+    palette: { ...base.palette, ...spec.palette },
+    ...(spec.shape ? { shape: spec.shape } : {}),
+    ...(spec.topper ? { topper: spec.topper } : {}),
+    ...(spec.ambience ? { ambience: spec.ambience } : {}),
+    ...(spec.cover !== undefined ? { cover: spec.cover } : {}),
+    ...(spec.banner ? { banner: spec.banner } : {}),
+  };
+};
+
+/** The cover text and the two banner lines, in the player's language unless the author wrote their own. */
+export const getThemeText = (theme: Theme, t: (key: MessageKey) => string) => ({
+  cover: theme.cover ?? t(theme.messages.cover),
+  banner: theme.banner ?? [t(theme.messages.banner1), t(theme.messages.banner2)],
+});
+
+const themeIds = () => Object.keys(BUILT_IN_THEMES).join(', ');
+
+/** Problems with a story's `theme`. Colors must be #rrggbb, since the card adds alpha to some of them. */
+export const validateTheme = (spec: unknown, path = 'theme'): string[] => {
+  if (typeof spec === 'string') return spec in BUILT_IN_THEMES ? [] : [`${path}: unknown theme ${JSON.stringify(spec)} (${themeIds()})`];
+  if (typeof spec !== 'object' || spec === null) return [`${path}: must be a theme id or an object with a base`];
+  const problems: string[] = [];
+  const s = spec as Record<string, any>;
+  if (!(s.base in BUILT_IN_THEMES)) problems.push(`${path}.base: unknown theme ${JSON.stringify(s.base)} (${themeIds()})`);
+  if (s.palette !== undefined) {
+    if (typeof s.palette !== 'object' || s.palette === null) problems.push(`${path}.palette: must be an object of colors`);
+    else Object.entries(s.palette).forEach(([key, color]) => {
+      if (!(key in COLORS)) problems.push(`${path}.palette.${key}: unknown color (${Object.keys(COLORS).join(', ')})`);
+      else if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) problems.push(`${path}.palette.${key}: must be a #rrggbb color`);
+    });
+  }
+  if (s.shape !== undefined && !THEME_SHAPES.includes(s.shape)) problems.push(`${path}.shape: must be one of ${THEME_SHAPES.join(', ')}`);
+  if (s.ambience !== undefined && !THEME_AMBIENCES.includes(s.ambience)) problems.push(`${path}.ambience: must be one of ${THEME_AMBIENCES.join(', ')}`);
+  if (s.topper !== undefined && (typeof s.topper !== 'string' || s.topper.trim() === '')) problems.push(`${path}.topper: must be a non-empty string`);
+  if (s.cover !== undefined && typeof s.cover !== 'string') problems.push(`${path}.cover: must be a string`);
+  if (s.banner !== undefined && !(Array.isArray(s.banner) && s.banner.length >= 1 && s.banner.length <= 2 && s.banner.every((line: unknown) => typeof line === 'string'))) {
+    problems.push(`${path}.banner: must be one or two lines of text`);
+  }
+  return problems;
+};
@@ -0,0 +1,185 @@
+import { TreeCoordinate, StoryPack, ThemeShape } from './types';
+
+// ==========================================
+// 🎄 TREE LAYOUT
+// ==========================================
+// All values are percentages of the viewport, like TreeCoordinate.
+// Themes (see themes.ts) assemble the envelopes into a tree, a three-tier cake or a heart.
+
+export const MIN_TREE_ENVELOPES = 3;
+export const MAX_TREE_ENVELOPES = 60;
+
+// The hand-placed 12 slot tree in constants.ts is the reference:
+// 16% between neighbours, 10% between rows, envelopes at 0.8 scale.
+const REFERENCE_SPACING_X = 16;
+const REFERENCE_SPACING_Y = 10;
+const REFERENCE_SCALE = 0.8;
+
+const TREE_TOP = 25; // Y of the first row (leaves room for the star)
+const TREE_BOTTOM = 70; // Y of the last row at most
+const TREE_WIDTH = 80; // Widest row spans 10% .. 90%
+
+export interface Point { x: number; y: number; }
+
+export interface TreeLayout {
+  slots: TreeCoordinate[];
+  rows: number[]; // Envelopes per row, top to bottom (per ring, outside in, for hearts)
+  tip: Point; // Where the star goes (and where it has to be dropped)
+  trunk: Point; // Top centre of the trunk, or of the cake's plate
+  envelopeScale: number; // Envelope scale once assembled, small enough to avoid overlaps
+}
+
+/** Splits `count` into triangular rows (1, 2, 3, ...) plus a narrower base row for the remainder. */
+export const getTreeRows = (count: number): number[] => {
+  const rows: number[] = [];
+  let placed = 0;
+  while (placed + rows.length + 1 <= count) {
+    rows.push(rows.length + 1);
+    placed += rows.length;
+  }
+  if (placed < count) rows.push(count - placed);
+  return rows;
+};
+
+const getTip = (topY: number, spacingY: number): Point => ({ x: 50, y: Math.max(4, topY - Math.max(spacingY, 6) * 0.9) });
+
+const checkCount = (ids: number[]) => {
+  if (ids.length < MIN_TREE_ENVELOPES || ids.length > MAX_TREE_ENVELOPES) {
+    throw new RangeError(`Tree layout supports ${MIN_TREE_ENVELOPES}-${MAX_TREE_ENVELOPES} envelopes, got ${ids.length}`);
+  }
+};
+
+/** Centres each row under the one above, shrinking the spacing (and envelopes) to fit the screen. */
+const layoutRows = (ids: number[], rows: number[]): TreeLayout => {
+  const widestRow = Math.max(...rows);
+  const spacingX = Math.min(REFERENCE_SPACING_X, TREE_WIDTH / Math.max(1, widestRow - 1));
+  const spacingY = Math.min(REFERENCE_SPACING_Y, (TREE_BOTTOM - TREE_TOP) / Math.max(1, rows.length - 1));
+
+  const slots: TreeCoordinate[] = [];
+  let next = 0;
+  rows.forEach((itemsInRow, row) => {
+    const y = TREE_TOP + row * spacingY;
+    for (let i = 0; i < itemsInRow; i++) {
+      const x = 50 + (i - (itemsInRow - 1) / 2) * spacingX;
+      slots.push({ id: ids[next++], x: round(x), y: round(y) });
+    }
+  });
+
+  const envelopeScale = REFERENCE_SCALE * Math.min(1, spacingX / REFERENCE_SPACING_X, spacingY / REFERENCE_SPACING_Y);
+  return {
+    slots,
+    rows,
+    tip: getTip(TREE_TOP, spacingY),
+    trunk: { x: 50, y: round(TREE_TOP + (rows.length - 1) * spacingY) },
+    envelopeScale: round(envelopeScale, 3),
+  };
+};
+
+/** Builds a tree shape for any number of envelopes between MIN_TREE_ENVELOPES and MAX_TREE_ENVELOPES. */
+export const generateTreeLayout = (ids: number[]): TreeLayout => {
+  checkCount(ids);
+  return layoutRows(ids, getTreeRows(ids.length));
+};
+
+/** Splits `count` into the rows of a three-tier cake: about a sixth on top, a third in the middle, the rest at the bottom. */
+export const getCakeRows = (count: number): number[] => {
+  const top = Math.max(1, Math.round(count / 6));
+  const middle = Math.max(1, Math.round(count / 3));
+  const bottom = count - top - middle;
+  const width = Math.min(10, bottom);
+  // Each tier is twice or three times as wide as the one above, wrapped into even rows
+  const tier = (n: number, w: number) => {
+    const rowCount = Math.ceil(n / Math.max(1, w));
+    return Array.from({ length: rowCount }, (_, i) => Math.floor(n / rowCount) + (i < n % rowCount ? 1 : 0));
+  };
+  return [...tier(top, Math.round(width / 3)), ...tier(middle, Math.round(width * 2 / 3)), ...tier(bottom, width)];
+};
+
+export const generateCakeLayout = (ids: number[]): TreeLayout => {
+  checkCount(ids);
+  return layoutRows(ids, getCakeRows(ids.length));
+};
+
+// The classic heart curve, t = 0 at the dip between the lobes, t = PI at the bottom point
+const heartX = (t: number) => 16 * Math.sin(t) ** 3;
+const heartY = (t: number) => 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+const HEART_TOP = 12; // Highest heartY, at the top of the lobes
+const HEART_BOTTOM = -17; // heartY at the bottom point
+const HEART_HALF_WIDTH = 32; // % of the screen from the centre to the widest point
+const HEART_SAMPLES = 720;
+
+/**
+ * Spreads the envelopes evenly along the outline of a heart, starting at its point.
+ * More than 16 envelopes fill smaller hearts inside it (two or three rings).
+ */
+export const generateHeartLayout = (ids: number[]): TreeLayout => {
+  checkCount(ids);
+  const scales = ids.length <= 16 ? [1] : ids.length <= 36 ? [1, 0.6] : [1, 0.62, 0.3];
+  const total = scales.reduce((sum, s) => sum + s, 0);
+  const rows = scales.map(s => Math.round(ids.length * s / total));
+  rows[0] += ids.length - rows.reduce((sum, n) => sum + n, 0);
+
+  const unitY = (TREE_BOTTOM - TREE_TOP) / (HEART_TOP - HEART_BOTTOM);
+  const centreY = (HEART_TOP + HEART_BOTTOM) / 2;
+  const slots: TreeCoordinate[] = [];
+  let spacing = Infinity;
+  let next = 0;
+  rows.forEach((count, ring) => {
+    const s = scales[ring];
+    const points = Array.from({ length: HEART_SAMPLES + 1 }, (_, i) => {
+      const t = Math.PI + 2 * Math.PI * i / HEART_SAMPLES;
+      return { x: 50 + heartX(t) / 16 * HEART_HALF_WIDTH * s, y: TREE_TOP + (HEART_TOP - (centreY + (heartY(t) - centreY) * s)) * unitY };
+    });
+    const lengths = [0];
+    for (let i = 1; i < points.length; i++) lengths.push(lengths[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+    const perimeter = lengths[lengths.length - 1];
+    spacing = Math.min(spacing, perimeter / count);
+    let i = 0;
+    for (let k = 0; k < count; k++) {
+      const target = perimeter * k / count;
+      while (lengths[i + 1] < target) i++;
+      slots.push({ id: ids[next++], x: round(points[i].x), y: round(points[i].y) });
+    }
+  });
+
+  return {
+    slots,
+    rows,
+    tip: getTip(TREE_TOP, REFERENCE_SPACING_Y),
+    trunk: { x: 50, y: TREE_BOTTOM },
+    envelopeScale: round(REFERENCE_SCALE * Math.min(1, spacing / REFERENCE_SPACING_X), 3),
+  };
+};
+
+const SHAPE_LAYOUTS: Record<ThemeShape, (ids: number[]) => TreeLayout> = { tree: generateTreeLayout, cake: generateCakeLayout, heart: generateHeartLayout };
+
+/** Derives tip and trunk from hand-placed slots (e.g. TREE_COORDINATES). */
+export const layoutFromSlots = (slots: TreeCoordinate[]): TreeLayout => {
+  const ys = Array.from(new Set(slots.map(s => s.y))).sort((a, b) => a - b);
+  const rows = ys.map(y => slots.filter(s => s.y === y).length);
+  const spacingY = ys.length > 1 ? (ys[ys.length - 1] - ys[0]) / (ys.length - 1) : REFERENCE_SPACING_Y;
+  const centreOfRow = (y: number) => { const row = slots.filter(s => s.y === y); return round(row.reduce((sum, s) => sum + s.x, 0) / row.length); };
+  return {
+    slots,
+    rows,
+    tip: { x: centreOfRow(ys[0]), y: round(getTip(ys[0], spacingY).y) },
+    trunk: { x: centreOfRow(ys[ys.length - 1]), y: ys[ys.length - 1] },
+    envelopeScale: REFERENCE_SCALE,
+  };
+};
+
+/** The plate under a cake, in % like the slots: just below the bottom row and a little wider. */
+export const getCakePlate = (layout: TreeLayout): Point & { width: number } => {
+  const xs = layout.slots.filter(s => s.y === layout.trunk.y).map(s => s.x);
+  return { x: layout.trunk.x, y: round(layout.trunk.y + 6 * layout.envelopeScale), width: round(Math.max(...xs) - Math.min(...xs) + 16 * layout.envelopeScale) };
+};
+
+/** True when the story's hand-placed slots were placed for `shape` (a tree unless `treeShape` says otherwise). */
+export const hasSlotsForShape = (story: Pick<StoryPack, 'tree' | 'treeShape'>, shape: ThemeShape): boolean =>
+  story.tree !== undefined && (story.treeShape ?? 'tree') === shape;
+
+/** Uses the story's hand-placed slots when they fit the theme's shape, otherwise generates that shape. */
+export const resolveTreeLayout = (story: StoryPack, shape: ThemeShape = 'tree'): TreeLayout =>
+  hasSlotsForShape(story, shape) ? layoutFromSlots(story.tree!) : SHAPE_LAYOUTS[shape](story.envelopes.map(e => e.id));
+
+const round = (v: number, digits = 2) => Math.round(v * 10 ** digits) / 10 ** digits;
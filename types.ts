@@ -3,16 +3,45 @@ export interface EnvelopeData {
   title: string;
   message: string; // The letter content
   imageUrl: string; // The illustration inside the letter
+  body?: LetterBlock[]; // Pages shown instead of `message`, see letterBody.ts
+  imageFallbacks?: string[]; // Tried in order when imageUrl won't load, see assets.ts
   iconUrl?: string; // Optional custom icon for the closed envelope
+  unlockDate?: string; // YYYY-MM-DD, stays locked before that day (advent calendars)
+  challenge?: ChallengeSpec; // Mini-game to pass before the letter opens
   scale: number; // Scale factor for size variation (e.g., 0.8 to 1.2)
+  translations?: Record<string, LocalizedText>; // Locale ('en', 'zh') -> text shown instead, see i18n.ts
 }
 
+export interface LocalizedText {
+  title?: string;
+  message?: string;
+  body?: LetterBlock[];
+}
+
+// One page of a letter, see letterBody.ts
+export type LetterBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url: string; caption?: string }
+  | { type: 'carousel'; images: { url: string; caption?: string }[] } // Swiped through on one page
+  | { type: 'audio'; url: string; caption?: string } // Voice memo, the music ducks while it plays
+  | { type: 'video'; url: string; poster?: string; caption?: string };
+
 export interface TreeCoordinate {
   id: number;
   x: number; // Percentage 0-100
   y: number; // Percentage 0-100
 }
 
+// Where an envelope lies on screen during the collecting phase
+export interface ScatterPosition {
+  x: number; // Percentage 0-100
+  y: number; // Percentage 0-100
+  r: number; // Rotation in degrees
+  z: number; // Stacking order
+}
+
+export type EnvelopeLayout = { [id: number]: ScatterPosition };
+
 export enum GameState {
   COVER = 'COVER',
   COLLECTING = 'COLLECTING',
@@ -20,4 +49,77 @@ export enum GameState {
   ASSEMBLING = 'ASSEMBLING',
   PLACING_STAR = 'PLACING_STAR', // New state for manual star interaction
   COMPLETED = 'COMPLETED'
-}
\ No newline at end of file
+}
+
+export interface StoryImages {
+  cover: string; // Cover screen background
+  game: string; // Background during the collecting phase
+  yearReview: string; // Illustration shown before assembly
+  fallbacks?: Partial<Record<StoryImageKey, string[]>>; // Tried in order when an image won't load
+}
+
+export type StoryImageKey = 'cover' | 'game' | 'yearReview';
+
+// Mini-games guarding a letter, see challenges.ts
+export type ChallengeSpec =
+  | { type: 'snow' } // Rub the snow off the envelope
+  | { type: 'quiz'; question: string; answers: string[]; choices?: string[] } // Free text, or multiple choice when `choices` is set
+  | { type: 'memory'; pairs?: number } // Flip cards to find the pairs (2-5)
+  | { type: 'rhythm'; beats?: number }; // Tap back a short beat (3-8)
+
+export type ChallengeType = ChallengeSpec['type'];
+
+// Which letters may be opened, see unlockRules.ts
+export type UnlockRules =
+  | { mode: 'strict' } // In list order (default)
+  | { mode: 'free' } // Any order
+  | { mode: 'date'; dates: Record<string, string> } // Envelope id -> YYYY-MM-DD, opens on or after that day
+  | { mode: 'advent'; start?: string } // One letter per day from `start` (YYYY-MM-DD), or each letter's unlockDate
+  | { mode: 'prerequisites'; requires: Record<string, number[]> }; // Envelope id -> ids that must be read first
+
+// Hidden input codes and what they unlock, see secrets.ts
+export interface SecretSpec {
+  id: string; // Stable, recorded once found
+  sequence: string[]; // KeyboardEvent.key names ('ArrowUp', 'b', ...); controller buttons type the same keys
+  reward: SecretReward;
+  title?: string; // Shown when found, defaults per reward
+  message?: string;
+}
+
+export type SecretReward =
+  | { type: 'message' } // Just the title and message (the classic Konami surprise)
+  | { type: 'letter'; title: string; message: string; imageUrl?: string } // A bonus letter that isn't on the tree
+  | { type: 'palette'; palette: string } // Recolors the card, see SECRET_PALETTES
+  | { type: 'music'; song: string } // Switches the background music, see SONGS in chiptune.ts
+  | { type: 'assemble' }; // Skips the remaining letters and goes straight to the tree
+
+// A "story pack" is everything that makes one card unique.
+// Loaded at startup so a single build can serve many recipients.
+export interface StoryPack {
+  version: number; // Format version, see STORY_PACK_VERSION
+  id: string; // Stable identifier (used for saves, links, etc.)
+  title?: string;
+  images: StoryImages;
+  envelopes: EnvelopeData[];
+  tree?: TreeCoordinate[]; // Hand-placed slots, one per envelope id. Generated when omitted.
+  treeShape?: ThemeShape; // Shape the `tree` slots were placed for, defaults to 'tree'. Other shapes are generated.
+  unlock?: UnlockRules; // Defaults to strict order
+  secrets?: SecretSpec[]; // Defaults to the Konami code
+  theme?: ThemeSpec; // Defaults to 'christmas'
+}
+
+// The occasion a card dresses up for, see themes.ts
+export type ThemeShape = 'tree' | 'heart' | 'cake'; // What the envelopes assemble into
+export type ThemeAmbience = 'snow' | 'petals' | 'confetti'; // What falls across the screen
+
+export type ThemeSpec =
+  | string // A built-in theme id
+  | {
+      base: string; // Built-in theme to start from
+      palette?: Record<string, string>; // Overrides some colors, keys as in COLORS
+      shape?: ThemeShape;
+      topper?: string; // Emoji placed on top at the end
+      ambience?: ThemeAmbience;
+      cover?: string; // Cover screen text, in the card's language
+      banner?: string[]; // The two lines shown once the topper is placed
+    };
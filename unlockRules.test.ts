@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EnvelopeData } from './types';
+import { checkUnlock, parseLocalDate, resolveUnlockDates, validateUnlockRules } from './unlockRules';
+
+// ==========================================
+// 🧪 UNLOCK RULES TESTS
+// ==========================================
+
+const ORDER = [1, 2, 3];
+const envelopes = ORDER.map(id => ({ id, title: `#${id}`, message: '', imageUrl: '', scale: 1 })) as EnvelopeData[];
+const day = (value: string) => parseLocalDate(value)!.getTime();
+
+describe('checkUnlock', () => {
+  it('opens the first unread letter under strict rules', () => {
+    assert.equal(checkUnlock({ mode: 'strict' }, 1, ORDER, [], 0), null);
+    assert.deepEqual(checkUnlock({ mode: 'strict' }, 3, ORDER, [1], 0), { code: 'order', message: 'Read #2 first', params: { id: 2 } });
+  });
+
+  it('lists the prerequisites still unread', () => {
+    const rules = { mode: 'prerequisites' as const, requires: { 3: [1, 2] } };
+    assert.deepEqual(checkUnlock(rules, 3, ORDER, [2], 0)?.params, { ids: [1] });
+    assert.equal(checkUnlock(rules, 3, ORDER, [1, 2], 0), null);
+    assert.equal(checkUnlock(rules, 2, ORDER, [], 0), null);
+  });
+
+  it('keeps dated letters locked until local midnight of their day', () => {
+    const dates = resolveUnlockDates({ mode: 'date', dates: { 2: '2025-12-24' } }, envelopes);
+    assert.deepEqual(Object.keys(dates), ['2']);
+    assert.equal(checkUnlock({ mode: 'date', dates: {} }, 2, ORDER, [], day('2025-12-24') - 1, dates)?.code, 'date');
+    assert.equal(checkUnlock({ mode: 'date', dates: {} }, 2, ORDER, [], day('2025-12-24'), dates), null);
+  });
+
+  it('dates advent letters one day apart from the start', () => {
+    const dates = resolveUnlockDates({ mode: 'advent', start: '2025-12-30' }, envelopes);
+    assert.deepEqual(dates, { 1: day('2025-12-30'), 2: day('2025-12-31'), 3: day('2026-01-01') });
+  });
+
+  it('applies an envelope unlockDate in every mode, but never to read letters', () => {
+    const dated = envelopes.map(e => (e.id === 1 ? { ...e, unlockDate: '2025-12-24' } : e));
+    const dates = resolveUnlockDates({ mode: 'strict' }, dated);
+    assert.equal(checkUnlock({ mode: 'strict' }, 1, ORDER, [], day('2025-12-23'), dates)?.code, 'date');
+    assert.equal(checkUnlock({ mode: 'strict' }, 1, ORDER, [1], day('2025-12-23'), dates), null);
+  });
+});
+
+describe('validateUnlockRules', () => {
+  it('accepts well-formed rules', () => {
+    assert.deepEqual(validateUnlockRules({ mode: 'prerequisites', requires: { 3: [1, 2], 2: [1] } }, envelopes), []);
+    assert.deepEqual(validateUnlockRules({ mode: 'date', dates: { 1: '2025-12-01' } }, envelopes), []);
+  });
+
+  it('reports prerequisite cycles', () => {
+    const problems = validateUnlockRules({ mode: 'prerequisites', requires: { 1: [3], 2: [1], 3: [2] } }, envelopes);
+    assert.equal(problems.length, 1);
+    assert.match(problems[0], /form a cycle/);
+    assert.match(validateUnlockRules({ mode: 'prerequisites', requires: { 1: [1] } }, envelopes)[0], /form a cycle/);
+  });
+
+  it('reports unknown ids and bad dates', () => {
+    assert.deepEqual(validateUnlockRules({ mode: 'date', dates: { 9: '2025-02-30' } }, envelopes), [
+      'unlock.dates.9: no envelope with id 9',
+      'unlock.dates.9: "2025-02-30" is not a YYYY-MM-DD date',
+    ]);
+    assert.deepEqual(validateUnlockRules({ mode: 'prerequisites', requires: { 1: [7] } }, envelopes), ['unlock.requires.1: no envelope with id 7']);
+  });
+
+  it('needs a start date or dated envelopes for advent', () => {
+    assert.match(validateUnlockRules({ mode: 'advent' }, envelopes)[0], /missing on #1, #2, #3/);
+    assert.deepEqual(validateUnlockRules({ mode: 'advent' }, envelopes.map(e => ({ ...e, unlockDate: '2025-12-01' }))), []);
+  });
+
+  it('reports unknown modes', () => {
+    assert.match(validateUnlockRules({ mode: 'random' }, envelopes)[0], /unknown mode "random"/);
+  });
+});
@@ -0,0 +1,152 @@
+import { EnvelopeData, UnlockRules } from './types';
+
+// ==========================================
+// 🔐 UNLOCK RULES
+// ==========================================
+// Decides which letters may be opened. Chosen per story with `unlock` in the pack:
+//   { "mode": "strict" }                                  in list order (default)
+//   { "mode": "free" }                                    any order
+//   { "mode": "date", "dates": { "12": "2025-12-24" } }    on or after a calendar date (local time)
+//   { "mode": "prerequisites", "requires": { "7": [3, 5] } }  after other letters were read
+//   { "mode": "advent", "start": "2025-12-01" }           one letter per day, in any order once open
+// An envelope's own `unlockDate` keeps it locked before that day in every mode.
+
+export const DEFAULT_UNLOCK_RULES: UnlockRules = { mode: 'strict' };
+
+export interface LockReason {
+  code: 'order' | 'date' | 'prerequisite' | 'unknown';
+  message: string; // Short enough for a tooltip (English, the UI localizes from `code` and `params`)
+  params?: { id?: number; ids?: number[]; date?: number };
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Midnight (local time) of a YYYY-MM-DD date, or null when malformed. */
+export const parseLocalDate = (value: string): Date | null => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+};
+
+export const formatShortDate = (date: Date, localeTag = 'en-US'): string => date.toLocaleDateString(localeTag, { month: 'short', day: 'numeric' });
+
+const label = (id: number) => `#${id}`;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** When each dated letter opens (ms timestamps by envelope id). Undated letters are missing from the map. */
+export const resolveUnlockDates = (rules: UnlockRules, envelopes: EnvelopeData[]): Record<number, number> => {
+  const dates: Record<number, number> = {};
+  const start = rules.mode === 'advent' && rules.start ? parseLocalDate(rules.start) : null;
+  envelopes.forEach((env, index) => {
+    const value = env.unlockDate ?? (rules.mode === 'date' ? rules.dates[String(env.id)] : undefined);
+    const date = value ? parseLocalDate(value) : start ? addDays(start, index) : null;
+    if (date) dates[env.id] = date.getTime();
+  });
+  return dates;
+};
+
+/**
+ * Why letter `id` is locked, or null when it may be opened.
+ * `order` is the reading order, `read` what has been read so far, `now` a timestamp in ms,
+ * `unlockDates` the result of resolveUnlockDates.
+ */
+export const checkUnlock = (rules: UnlockRules, id: number, order: number[], read: number[], now: number, unlockDates: Record<number, number> = {}): LockReason | null => {
+  if (read.includes(id)) return null;
+
+  const opensAt = unlockDates[id];
+  if (opensAt !== undefined && now < opensAt) return { code: 'date', message: `Opens on ${formatShortDate(new Date(opensAt))}`, params: { date: opensAt } };
+
+  switch (rules.mode) {
+    case 'free':
+    case 'date':
+    case 'advent':
+      return null;
+
+    case 'prerequisites': {
+      const missing = (rules.requires[String(id)] ?? []).filter(req => !read.includes(req));
+      if (missing.length === 0) return null;
+      return { code: 'prerequisite', message: `Read ${missing.map(label).join(' and ')} first`, params: { ids: missing } };
+    }
+
+    case 'strict':
+    default: {
+      const expected = order.find(e => !read.includes(e));
+      return id === expected ? null : { code: 'order', message: `Read ${label(expected!)} first`, params: { id: expected } };
+    }
+  }
+};
+
+/** The rules with envelope ids renamed through `ids` (old id -> new id), e.g. after the editor reorders letters. Ids missing from the map are dropped. */
+export const remapUnlockRules = (rules: UnlockRules, ids: Map<number, number>): UnlockRules => {
+  const remapKeys = <T>(map: Record<string, T>, value: (v: T) => T = v => v): Record<string, T> => {
+    const out: Record<string, T> = {};
+    Object.entries(map).forEach(([key, v]) => { const id = ids.get(Number(key)); if (id !== undefined) out[String(id)] = value(v); });
+    return out;
+  };
+  switch (rules.mode) {
+    case 'date':
+      return { ...rules, dates: remapKeys(rules.dates) };
+    case 'prerequisites':
+      return { ...rules, requires: remapKeys(rules.requires, reqs => reqs.flatMap(req => (ids.has(req) ? [ids.get(req)!] : []))) };
+    default:
+      return rules;
+  }
+};
+
+/** Problems with a story's unlock rules (unknown ids, bad dates, impossible prerequisite cycles). */
+export const validateUnlockRules = (rules: any, envelopes: EnvelopeData[]): string[] => {
+  const problems: string[] = [];
+  if (typeof rules !== 'object' || rules === null) return ['unlock: must be an object with a mode'];
+  const envelopeIds = new Set(envelopes.map(e => e.id));
+
+  const checkId = (key: string, path: string) => {
+    if (!envelopeIds.has(Number(key))) problems.push(`${path}: no envelope with id ${key}`);
+  };
+
+  switch (rules.mode) {
+    case 'strict':
+    case 'free':
+      break;
+    case 'date':
+      if (typeof rules.dates !== 'object' || rules.dates === null) { problems.push('unlock.dates: must map envelope ids to YYYY-MM-DD dates'); break; }
+      Object.entries(rules.dates).forEach(([key, value]) => {
+        checkId(key, `unlock.dates.${key}`);
+        if (typeof value !== 'string' || !parseLocalDate(value)) problems.push(`unlock.dates.${key}: ${JSON.stringify(value)} is not a YYYY-MM-DD date`);
+      });
+      break;
+    case 'prerequisites': {
+      if (typeof rules.requires !== 'object' || rules.requires === null) { problems.push('unlock.requires: must map envelope ids to lists of ids'); break; }
+      Object.entries(rules.requires).forEach(([key, value]) => {
+        checkId(key, `unlock.requires.${key}`);
+        if (!Array.isArray(value)) { problems.push(`unlock.requires.${key}: must be a list of envelope ids`); return; }
+        value.forEach(req => checkId(String(req), `unlock.requires.${key}`));
+      });
+      // A cycle would leave letters that can never be opened
+      const visiting = new Set<string>(); const done = new Set<string>();
+      const visit = (key: string): boolean => {
+        if (done.has(key)) return false;
+        if (visiting.has(key)) return true;
+        visiting.add(key);
+        const requires = Array.isArray(rules.requires[key]) ? rules.requires[key] : [];
+        const cyclic = requires.some((req: number) => visit(String(req)));
+        visiting.delete(key); done.add(key);
+        return cyclic;
+      };
+      if (Object.keys(rules.requires).some(visit)) problems.push('unlock.requires: prerequisites form a cycle, some letters could never be opened');
+      break;
+    }
+    case 'advent':
+      if (rules.start !== undefined) {
+        if (typeof rules.start !== 'string' || !parseLocalDate(rules.start)) problems.push(`unlock.start: ${JSON.stringify(rules.start)} is not a YYYY-MM-DD date`);
+      } else {
+        const undated = envelopes.filter(e => !e.unlockDate).map(e => e.id);
+        if (undated.length > 0) problems.push(`unlock: advent mode needs a start date or an unlockDate on every envelope (missing on ${undated.map(label).join(', ')})`);
+      }
+      break;
+    default:
+      problems.push(`unlock.mode: unknown mode ${JSON.stringify(rules.mode)} (strict, free, date, prerequisites or advent)`);
+  }
+  return problems;
+};